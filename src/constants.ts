@@ -3,9 +3,44 @@ const PLUGIN_NAME = "homebridge-smarteefi-plugin";
 const MAX_FAN_SPEED_UNIT = 4;
 const BASE_FAN_SPEED = 158;
 const FAN_APPLIANCE_MAP = 112;
+const DIMMER_LEVELS = 10; // Brightness steps of a dimmer gang unless configured per device
+const LOCAL_UDP_PORT = 10201;
+const LOCAL_RESPONSE_TIMEOUT = 1500; // ms to wait for a device reply before retrying
+const LOCAL_MAX_RETRIES = 2; // Resends after the first attempt times out
+const HYBRID_LOCAL_RETRIES = 0; // In hybrid mode fall back to the cloud after the first timeout
+const PATH_FAILURE_THRESHOLD = 2; // Consecutive failures before a device's path is skipped
+const PATH_RETRY_COOLDOWN = 5 * 60 * 1000; // How long a failed path is skipped before trying it again
+const LAN_DISCOVERY_TIMEOUT = 3000; // ms to collect replies to a discovery broadcast
+const DEFAULT_API_HOST = "https://www.smarteefi.com/api/v3";
+const API_REQUEST_TIMEOUT = 15000; // ms before a cloud request is abandoned
+const DISCOVERY_RETRY_DELAY = 5 * 60 * 1000; // ms before fetching the device list again after it failed
+const LOGIN_RETRY_MIN_DELAY = 10 * 1000; // First wait after a failed login, doubled on each failure
+const LOGIN_RETRY_MAX_DELAY = 15 * 60 * 1000; // Upper bound for the login backoff
+const REFRESH_CONCURRENCY = 3; // Devices polled in parallel during a refresh cycle
+const REFRESH_JITTER = 250; // Max random delay (ms) before each status request
+const FAST_POLL_INTERVAL = 10 * 1000; // Poll interval right after a command or external change
+const FAST_POLL_WINDOW = 2 * 60 * 1000; // How long a device stays on the fast interval
+const IDLE_POLL_AFTER = 2 * 60 * 60 * 1000; // Unchanged this long -> idle interval
+const IDLE_POLL_INTERVAL = 5 * 60 * 1000;
+const OFFLINE_POLL_INTERVAL = 10 * 60 * 1000; // Devices the cloud reports offline
+const OFFLINE_FAILURE_THRESHOLD = 3; // Consecutive failed polls before a device shows "No Response"
+const STATUS_CACHE_FILE = "smarteefi-status.json"; // In Homebridge's storage path
+const STATUS_SAVE_DELAY = 5000; // ms to batch cache changes before writing them
+const COMMAND_TIMEOUT_MARGIN = 1000; // ms added to the control path's worst case before a HomeKit command is given up
+const COMMAND_TIMEOUT_MAX = 9000; // ms a HomeKit command may take in total, margin included; HAP gives up on a write after ~10 s
+const COMMAND_RETRIES = 1; // Further attempts after a command fails with a possibly transient error
+const COMMAND_RETRY_DELAY = 500; // ms before the first retry, doubled for each further one
+const SLIDER_DEBOUNCE = 300; // ms a speed/brightness slider must rest before its value is sent
+const COMMAND_MERGE_DELAY = 50; // ms to collect gang changes of one device into a single command
+const COMMAND_ECHO_WINDOW = 30 * 1000; // A gang change this soon after our own command to it is not a button press
+const SETTINGS_REFRESH_INTERVAL = 10 * 60 * 1000; // Re-read exposed device settings (child lock, LED) this often
+const AUTO_OFF_MAX_MINUTES = 24 * 60; // Longest configurable auto-off
+const AUTO_OFF_RETRY_DELAY = 60 * 1000; // ms before retrying an auto-off the device didn't accept
 const STRINGS = {
     SWITCH: "Smart Switch",
     FAN: "Smart Fan",
+    DIMMER: "Smart Dimmer",
+    BOARD: "Smart Switchboard",
     BRAND: "Smarteefi"
 };
 
@@ -15,5 +50,38 @@ export {
     MAX_FAN_SPEED_UNIT,
     BASE_FAN_SPEED,
     FAN_APPLIANCE_MAP,
+    DIMMER_LEVELS,
+    LOCAL_UDP_PORT,
+    LOCAL_RESPONSE_TIMEOUT,
+    LOCAL_MAX_RETRIES,
+    HYBRID_LOCAL_RETRIES,
+    PATH_FAILURE_THRESHOLD,
+    PATH_RETRY_COOLDOWN,
+    LAN_DISCOVERY_TIMEOUT,
+    DEFAULT_API_HOST,
+    API_REQUEST_TIMEOUT,
+    DISCOVERY_RETRY_DELAY,
+    LOGIN_RETRY_MIN_DELAY,
+    LOGIN_RETRY_MAX_DELAY,
+    REFRESH_CONCURRENCY,
+    REFRESH_JITTER,
+    FAST_POLL_INTERVAL,
+    FAST_POLL_WINDOW,
+    IDLE_POLL_AFTER,
+    IDLE_POLL_INTERVAL,
+    OFFLINE_POLL_INTERVAL,
+    OFFLINE_FAILURE_THRESHOLD,
+    STATUS_CACHE_FILE,
+    STATUS_SAVE_DELAY,
+    COMMAND_TIMEOUT_MARGIN,
+    COMMAND_TIMEOUT_MAX,
+    COMMAND_RETRIES,
+    COMMAND_RETRY_DELAY,
+    SLIDER_DEBOUNCE,
+    COMMAND_MERGE_DELAY,
+    COMMAND_ECHO_WINDOW,
+    SETTINGS_REFRESH_INTERVAL,
+    AUTO_OFF_MAX_MINUTES,
+    AUTO_OFF_RETRY_DELAY,
     STRINGS
-};
\ No newline at end of file
+};
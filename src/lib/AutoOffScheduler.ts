@@ -0,0 +1,71 @@
+import { DeviceStatus } from "./Config";
+
+/**
+ * Runs the auto-off timers of gangs. Deadlines are kept in the DeviceStatus cache, which is saved to disk,
+ * so a timer that was running when Homebridge stopped is resumed after the restart (and fires right away if overdue).
+ */
+export class AutoOffScheduler {
+    private timers = new Map<string, NodeJS.Timeout>(); // By `serial/sequence`
+
+    constructor(
+        private readonly onDue: (deviceId: string, sequence: number) => void,
+        private readonly deviceStatus: DeviceStatus = DeviceStatus.Instance(),
+    ) { }
+
+    /**
+     * Starts (or restarts) a gang's timer so it fires at `dueAt`.
+     */
+    start(deviceId: string, sequence: number, dueAt: number) {
+        this.deviceStatus.setOffTimer(deviceId, sequence, dueAt);
+        this._arm(deviceId, sequence, dueAt);
+    }
+
+    /**
+     * Makes sure a saved deadline has a running timer. Returns false if the gang has no deadline.
+     */
+    resume(deviceId: string, sequence: number): boolean {
+        const dueAt = this.deviceStatus.getOffTimer(deviceId, sequence);
+        if (dueAt === null) {
+            return false;
+        }
+        if (!this.timers.has(`${deviceId}/${sequence}`)) {
+            this._arm(deviceId, sequence, dueAt);
+        }
+        return true;
+    }
+
+    /**
+     * Stops a gang's timer and forgets its deadline.
+     */
+    cancel(deviceId: string, sequence: number) {
+        const key = `${deviceId}/${sequence}`;
+        clearTimeout(this.timers.get(key));
+        this.timers.delete(key);
+        this.deviceStatus.clearOffTimer(deviceId, sequence);
+    }
+
+    /**
+     * Seconds until a gang switches off (0 if no timer is running), for RemainingDuration.
+     */
+    remaining(deviceId: string, sequence: number, now = Date.now()): number {
+        const dueAt = this.deviceStatus.getOffTimer(deviceId, sequence);
+        return dueAt === null ? 0 : Math.max(0, Math.round((dueAt - now) / 1000));
+    }
+
+    /**
+     * Clears every timer (on shutdown). The deadlines stay in the cache to be resumed at the next start.
+     */
+    stop() {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+    }
+
+    private _arm(deviceId: string, sequence: number, dueAt: number) {
+        const key = `${deviceId}/${sequence}`;
+        clearTimeout(this.timers.get(key));
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            this.onDue(deviceId, sequence);
+        }, Math.max(0, dueAt - Date.now())));
+    }
+}
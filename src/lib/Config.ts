@@ -1,5 +1,62 @@
 // src/lib/Config.ts (Restore original method names)
 
+import { PlatformConfig } from "homebridge";
+import { API_REQUEST_TIMEOUT, AUTO_OFF_MAX_MINUTES, DEFAULT_API_HOST, DIMMER_LEVELS } from "../constants";
+import { FanProfile, FanProfileConfig } from "./FanProfile";
+
+/**
+ * How commands and status queries reach a device.
+ * - cloud:  Smarteefi REST API only
+ * - local:  UDP on the LAN only
+ * - hybrid: UDP first, cloud when the device does not acknowledge in time
+ */
+export type ControlMode = "cloud" | "local" | "hybrid";
+
+/**
+ * HomeKit service a gang is exposed as.
+ * - switch, outlet, lightbulb, fan, valve: plain on/off services
+ * - regulator: fan regulator with speed control (Fanv2)
+ * - dimmer:    light with brightness control
+ */
+export type GangType = "switch" | "outlet" | "lightbulb" | "fan" | "valve" | "regulator" | "dimmer";
+
+export const GANG_TYPES: GangType[] = ["switch", "outlet", "lightbulb", "fan", "valve", "regulator", "dimmer"];
+
+/**
+ * Device-level settings that can be exposed as extra switches (a device's `settings` list).
+ * - childLock:    the wall buttons stop working; the device can still be switched from HomeKit and the app
+ * - indicatorLed: the button backlight / status LEDs
+ */
+export type DeviceSetting = "childLock" | "indicatorLed";
+
+export const DEVICE_SETTINGS: DeviceSetting[] = ["childLock", "indicatorLed"];
+
+/**
+ * HomeKit name of each setting's switch.
+ */
+export const DEVICE_SETTING_NAMES: Record<DeviceSetting, string> = {
+    childLock: "Child Lock",
+    indicatorLed: "Indicator LED",
+};
+
+/**
+ * Known state of a device's settings (a setting is missing until the cloud has reported it).
+ */
+export type DeviceSettings = Partial<Record<DeviceSetting, boolean>>;
+
+/**
+ * Per-gang settings from a device's `gangs` list, keyed by the gang's sequence number.
+ */
+export interface GangConfig {
+    sequence: number;
+    type?: GangType; // Service to expose, instead of guessing from the name
+    name?: string; // Accessory name, instead of the name from the Smarteefi app
+    hidden?: boolean; // Don't expose the gang at all (unused or hard-wired slots)
+    inverted?: boolean; // Relay is wired normally-closed: report and switch the opposite state
+    buttonEvents?: boolean; // Overrides the platform `buttonEvents` for this gang
+    autoOff?: number; // Minutes after which the gang switches off again once on
+}
+
 export class Config {
     // ... constructor and properties remain the same ...
     public userid = "";
@@ -8,7 +65,23 @@ export class Config {
     public ip: string[] = [];
     public isFan: boolean[] = [];
     public local = false;
-    constructor(userid?: string, password?: string, devicesConfig?: object[], local?: boolean) {
+    public controlMode: ControlMode = "cloud";
+    public importAllDevices = false; // Create accessories for every serial on the account
+    public includeDevices: string[] = []; // When importing, only these serials (empty = all)
+    public excludeDevices: string[] = []; // When importing, never these serials
+    public apiHost = DEFAULT_API_HOST; // Base URL of the Smarteefi cloud API
+    public requestTimeout = API_REQUEST_TIMEOUT; // ms per cloud request
+    public fanProfile = FanProfile.DEFAULT; // Speed steps/encoding of fan regulators, unless overridden per device
+    public deviceFanProfiles = new Map<string, FanProfileConfig>(); // Per-device `fanProfile` overrides
+    public deviceDimmerLevels = new Map<string, number>(); // Per-device `dimmerLevels`
+    public deviceGangs = new Map<string, Map<number, GangConfig>>(); // Per-device `gangs`, by sequence
+    public deviceSettings = new Map<string, DeviceSetting[]>(); // Per-device `settings` to expose as switches
+    public experimentalSettings = false; // Allow `settings` at all: their cloud requests are unverified
+    public buttonEvents = false; // Expose wall presses of on/off gangs as programmable switch events
+    public localConfirm = false; // Wait for devices to answer local commands (experimental), unless overridden per device
+    public deviceLocalConfirm = new Map<string, boolean>(); // Per-device `localConfirm`
+    public warnings: string[] = []; // Problems found while parsing, for the platform to log
+    constructor(userid?: string, password?: string, devicesConfig?: object[], local?: boolean, controlMode?: string) {
         this.userid = userid || "";
         this.password = password || "";
         this.devices = [];
@@ -23,9 +96,144 @@ export class Config {
                 this.devices.push(deviceId);
                 this.ip.push(ipAddress || '');
                 this.isFan.push(fanFlag);
+                if (deviceEntry["fanProfile"] && typeof deviceEntry["fanProfile"] === "object") {
+                    this.deviceFanProfiles.set(deviceId, deviceEntry["fanProfile"] as FanProfileConfig);
+                }
+                const dimmerLevels = Number(deviceEntry["dimmerLevels"]);
+                if (Number.isInteger(dimmerLevels) && dimmerLevels > 0) {
+                    this.deviceDimmerLevels.set(deviceId, dimmerLevels);
+                }
+                if (typeof deviceEntry["localConfirm"] === "boolean") {
+                    this.deviceLocalConfirm.set(deviceId, deviceEntry["localConfirm"]);
+                }
+                this._parseGangs(deviceId, deviceEntry["gangs"]);
+                const settings = Array.isArray(deviceEntry["settings"])
+                    ? DEVICE_SETTINGS.filter(setting => (deviceEntry["settings"] as unknown[]).includes(setting)) : [];
+                if (settings.length > 0) {
+                    this.deviceSettings.set(deviceId, settings);
+                }
             }
         });
-        this.local = !!local;
+        // Explicit controlMode wins; the legacy 'local' flag maps to local-only control
+        if (controlMode === "cloud" || controlMode === "local" || controlMode === "hybrid") {
+            this.controlMode = controlMode;
+        } else {
+            this.controlMode = local ? "local" : "cloud";
+        }
+        this.local = this.controlMode !== "cloud";
+    }
+
+    /**
+     * Builds a Config from the platform block of Homebridge's config.json.
+     */
+    static fromPlatformConfig(platformConfig: PlatformConfig): Config {
+        const config = new Config(
+            platformConfig.userid as string,
+            platformConfig.password as string,
+            platformConfig.devices as object[],
+            !!platformConfig.local,
+            platformConfig.controlMode as string
+        );
+        config.importAllDevices = !!platformConfig.importAllDevices;
+        config.includeDevices = Config._toSerialList(platformConfig.includeDevices);
+        config.excludeDevices = Config._toSerialList(platformConfig.excludeDevices);
+        if (typeof platformConfig.apiHost === "string" && platformConfig.apiHost.trim().length > 0) {
+            config.apiHost = platformConfig.apiHost.trim().replace(/\/+$/, "");
+        }
+        if (typeof platformConfig.requestTimeout === "number" && platformConfig.requestTimeout > 0) {
+            config.requestTimeout = platformConfig.requestTimeout;
+        }
+        const warn = (message: string) => config.warnings.push(message);
+        config.fanProfile = FanProfile.fromConfig(platformConfig.fanProfile as FanProfileConfig, FanProfile.DEFAULT, warn);
+        config.deviceFanProfiles.forEach((profile, deviceId) =>
+            FanProfile.fromConfig(profile, config.fanProfile, message => warn(`${deviceId}: ${message}`)));
+        config.buttonEvents = platformConfig.buttonEvents === true;
+        config.localConfirm = platformConfig.localConfirm === true;
+        config.experimentalSettings = platformConfig.experimentalSettings === true;
+        if (!config.experimentalSettings && config.deviceSettings.size > 0) {
+            config.warnings.push("Device 'settings' are ignored unless 'experimentalSettings' is enabled.");
+        }
+        return config;
+    }
+
+    /**
+     * Fan profile of a device: its own `fanProfile` entry on top of the platform-wide one.
+     */
+    getFanProfile(deviceId: string): FanProfile {
+        return FanProfile.fromConfig(this.deviceFanProfiles.get(deviceId), this.fanProfile);
+    }
+
+    /**
+     * Number of brightness steps of a device's dimmer gangs.
+     */
+    getDimmerLevels(deviceId: string): number {
+        return this.deviceDimmerLevels.get(deviceId) ?? DIMMER_LEVELS;
+    }
+
+    /**
+     * Whether local commands to a device wait for its reply. Otherwise (the default) commands are sent
+     * send-and-forget and the device's status is read from the cloud.
+     */
+    isLocalConfirmed(deviceId: string): boolean {
+        return this.deviceLocalConfirm.get(deviceId) ?? this.localConfirm;
+    }
+
+    /**
+     * Settings configured for a gang, or undefined if the gang isn't listed under `gangs`.
+     */
+    getGangConfig(deviceId: string, sequence: number): GangConfig | undefined {
+        return this.deviceGangs.get(deviceId)?.get(sequence);
+    }
+
+    /**
+     * Device settings to expose as switches for a device (none unless listed under its `settings` and
+     * `experimentalSettings` is on).
+     */
+    getExposedSettings(deviceId: string): DeviceSetting[] {
+        return this.experimentalSettings ? this.deviceSettings.get(deviceId) ?? [] : [];
+    }
+
+    /**
+     * Whether an account serial that isn't in `devices` should be imported.
+     */
+    shouldImport(serial: string): boolean {
+        if (!this.importAllDevices || this.excludeDevices.includes(serial)) {
+            return false;
+        }
+        return this.includeDevices.length === 0 || this.includeDevices.includes(serial);
+    }
+
+    private _parseGangs(deviceId: string, gangs: unknown) {
+        if (!Array.isArray(gangs)) {
+            return;
+        }
+        const gangConfigs = new Map<number, GangConfig>();
+        for (const gang of gangs) {
+            const sequence = Number(gang?.sequence);
+            if (!Number.isInteger(sequence) || sequence < 0) {
+                continue;
+            }
+            const name = typeof gang.name === "string" ? gang.name.trim() : "";
+            gangConfigs.set(sequence, {
+                sequence: sequence,
+                type: GANG_TYPES.includes(gang.type) ? gang.type : undefined,
+                name: name.length > 0 ? name : undefined,
+                hidden: !!gang.hidden,
+                inverted: !!gang.inverted,
+                buttonEvents: typeof gang.buttonEvents === "boolean" ? gang.buttonEvents : undefined,
+                autoOff: Number(gang.autoOff) > 0 ? Math.min(Number(gang.autoOff), AUTO_OFF_MAX_MINUTES) : undefined,
+            });
+        }
+        if (gangConfigs.size > 0) {
+            this.deviceGangs.set(deviceId, gangConfigs);
+        }
+    }
+
+    private static _toSerialList(value: unknown): string[] {
+        if (!Array.isArray(value)) {
+            return [];
+        }
+        return value.map(entry => String(entry).trim()).filter(entry => entry.length > 0);
     }
 }
 
@@ -35,16 +243,37 @@ export class Device {
     public sequence = 0;
     public name = "Unknown";
     public ip: string | null = null;
-    public isFan = false;
-    constructor(id: string, sequence: number, name: string, ip: string | null, isFan: boolean) {
+    public isFan = false; // Fan regulator (type "regulator")
+    public isDimmer = false; // Dimmer (type "dimmer")
+    public type: GangType = "switch";
+    public inverted = false; // On/off state is the opposite of the relay state
+    public buttonEvents = false; // Wall presses are sent to HomeKit as programmable switch events
+    public autoOff = 0; // Minutes after which the gang is switched off again (0 = never)
+    constructor(id: string, sequence: number, name: string, ip: string | null, type: GangType, inverted = false, buttonEvents = false, autoOff = 0) {
         this.id = id;
         this.sequence = sequence;
         this.name = name;
         this.ip = ip;
-        this.isFan = isFan;
+        this.type = type;
+        this.inverted = inverted;
+        this.buttonEvents = buttonEvents;
+        this.autoOff = autoOff;
+        this.isFan = type === "regulator";
+        this.isDimmer = type === "dimmer";
     }
 }
 
+/**
+ * Hardware details of a physical device, kept in the accessory context for diagnostics.
+ */
+export interface HardwareInfo {
+    serial: string;
+    gangCount: number; // Gangs the account lists for the device, hidden ones included
+    model?: string; // As reported by /user/devices, when it is
+    firmware?: string; // Normalised to HomeKit's x.y.z format
+    updatedAt: number;
+}
+
 export class IP { // Keep if used, otherwise remove
     // ... remains the same ...
     public id = "";
@@ -58,16 +287,44 @@ export class IP { // Keep if used, otherwise remove
     }
 }
 
+/**
+ * An on/off command to one gang whose effect hasn't been seen in a status read yet.
+ */
+export interface PendingGangCommand {
+    target: number; // The gang's bit as commanded (0 = relay off)
+    previous: number; // The gang's bit before the command, restored if it fails
+    acknowledgedAt: number; // 0 while the command is in flight
+}
+
+/**
+ * Outcome of checking a status read against the pending gang commands of a device.
+ */
+export interface GangReconciliation {
+    statusmap: number; // The read statusmap, with gangs still awaiting their command kept at the target
+    confirmed: number[]; // Sequences whose command shows in the read
+    notApplied: number[]; // Sequences whose command still doesn't show after the grace period
+}
+
 export class Status {
     // ... remains the same (with speedValue) ...
     public id = "";
     public switchmap = 255;
     public statusmap = 0;
-    public speedValue: number | null = null; // Store speed 1-4 for fans
+    public speedValue: number | null = null; // Store speed step (1..FanProfile.steps) for fans
     public preservedSpeedValue: number | null = null; // Last non-zero speed to restore on ON
     public preservedAtOff: number | null = null; // Snapshot of speed at OFF time for next ON restore
+    public brightness: Record<number, number> = {}; // Last brightness level of each dimmer gang, by sequence
+    public settings: DeviceSettings = {}; // Child lock / indicator LED, when exposed
+    public settingsUpdatedAt = 0; // When the settings were last read from (or confirmed by) the cloud
+    public unsupportedSettings: DeviceSetting[] = []; // Exposed settings the cloud doesn't offer for the device (re-checked each start)
+    public offTimers: Record<number, number> = {}; // When each gang with auto-off is due to switch off (epoch ms), by sequence
     public lastCommandTimestamp = 0; // Track last user command
+    public gangCommands: Record<number, number> = {}; // When each gang was last switched by the plugin, by sequence
+    public pendingGangs: Record<number, PendingGangCommand> = {}; // On/off commands awaiting confirmation, by sequence
     public pendingUpdate = false; // Prevent refresh conflicts
+    public online = true; // False once polling has failed OFFLINE_FAILURE_THRESHOLD times in a row
+    public consecutiveFailures = 0;
+    public lastSeen = 0; // Time of the last successful status poll
     public previousState?: { // For rollback on failure
         statusmap: number;
         speedValue: number | null;
@@ -120,6 +377,153 @@ export class DeviceStatus {
         }
     }
 
+    /**
+     * Applies a confirmed on/off command to the cache, changing only the gangs in `switchmap`.
+     */
+    setGangBits(id: string, switchmap: number, statusmap: number): void {
+        const statusObj = this.getStatusMap(id);
+        if (!statusObj) {
+            this.statuses.push(new Status(id, switchmap, statusmap & switchmap));
+            return;
+        }
+        statusObj.statusmap = (statusObj.statusmap & ~switchmap) | (statusmap & switchmap);
+    }
+
+    /**
+     * Whether the device answered its last status polls. Unknown devices count as online.
+     */
+    isOnline(id: string): boolean {
+        return this.getStatusMap(id)?.online ?? true;
+    }
+
+    /**
+     * Records a successful status poll. Returns true if the device was offline until now.
+     */
+    recordPollSuccess(id: string): boolean {
+        const statusObj = this.getStatusMap(id);
+        if (!statusObj) {
+            return false;
+        }
+        const wasOffline = !statusObj.online;
+        statusObj.online = true;
+        statusObj.lastSeen = Date.now();
+        statusObj.consecutiveFailures = 0;
+        return wasOffline;
+    }
+
+    /**
+     * Records a failed status poll. The device goes offline after `threshold` consecutive failures,
+     * or immediately when `definitelyOffline` (the cloud itself reports it offline).
+     * Returns true if this failure took the device offline.
+     */
+    recordPollFailure(id: string, threshold: number, definitelyOffline = false): boolean {
+        let statusObj = this.getStatusMap(id);
+        if (!statusObj) {
+            statusObj = new Status(id, 255, 0);
+            this.statuses.push(statusObj);
+        }
+        statusObj.consecutiveFailures++;
+        if (statusObj.online && (definitelyOffline || statusObj.consecutiveFailures >= threshold)) {
+            statusObj.online = false;
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Remembers the brightness level of a dimmer gang.
+     */
+    setBrightnessLevel(id: string, sequence: number, level: number): void {
+        let statusObj = this.getStatusMap(id);
+        if (!statusObj) {
+            statusObj = new Status(id, 255, 0);
+            this.statuses.push(statusObj);
+        }
+        statusObj.brightness[sequence] = level;
+    }
+
+    /**
+     * Last known brightness level of a dimmer gang (null if never set).
+     */
+    getBrightnessLevel(id: string, sequence: number): number | null {
+        return this.getStatusMap(id)?.brightness[sequence] ?? null;
+    }
+
+    /**
+     * Remembers when a gang's auto-off timer is due (saved with the cache, so it survives restarts).
+     */
+    setOffTimer(id: string, sequence: number, dueAt: number): void {
+        let statusObj = this.getStatusMap(id);
+        if (!statusObj) {
+            statusObj = new Status(id, 255, 0);
+            this.statuses.push(statusObj);
+        }
+        statusObj.offTimers[sequence] = dueAt;
+    }
+
+    /**
+     * Forgets a gang's auto-off timer.
+     */
+    clearOffTimer(id: string, sequence: number): void {
+        const statusObj = this.getStatusMap(id);
+        if (statusObj) {
+            delete statusObj.offTimers[sequence];
+        }
+    }
+
+    /**
+     * When a gang's auto-off timer is due (null if none is running).
+     */
+    getOffTimer(id: string, sequence: number): number | null {
+        return this.getStatusMap(id)?.offTimers[sequence] ?? null;
+    }
+
+    /**
+     * Records settings the cloud reported; settings it didn't mention keep their last known state.
+     */
+    setDeviceSettings(id: string, settings: DeviceSettings): void {
+        let statusObj = this.getStatusMap(id);
+        if (!statusObj) {
+            statusObj = new Status(id, 255, 0);
+            this.statuses.push(statusObj);
+        }
+        statusObj.settings = { ...statusObj.settings, ...settings };
+        statusObj.settingsUpdatedAt = Date.now();
+    }
+
+    /**
+     * Last known state of a device setting (null if never read).
+     */
+    getDeviceSetting(id: string, setting: DeviceSetting): boolean | null {
+        return this.getStatusMap(id)?.settings[setting] ?? null;
+    }
+
+    /**
+     * Notes settings the cloud doesn't offer for a device, so their switches are no longer exposed.
+     */
+    markSettingsUnsupported(id: string, settings: DeviceSetting[]): void {
+        let statusObj = this.getStatusMap(id);
+        if (!statusObj) {
+            statusObj = new Status(id, 255, 0);
+            this.statuses.push(statusObj);
+        }
+        statusObj.unsupportedSettings = [...new Set([...statusObj.unsupportedSettings, ...settings])];
+    }
+
+    /**
+     * Whether a setting is supported by a device, as far as known (unread settings count as supported).
+     */
+    isSettingSupported(id: string, setting: DeviceSetting): boolean {
+        return !this.getStatusMap(id)?.unsupportedSettings.includes(setting);
+    }
+
+    /**
+     * Whether a device's settings haven't been read for `maxAgeMs`.
+     */
+    areSettingsStale(id: string, maxAgeMs: number): boolean {
+        return Date.now() - (this.getStatusMap(id)?.settingsUpdatedAt ?? 0) >= maxAgeMs;
+    }
+
     /**
      * Set or update the preservedSpeedValue (last non-zero speed for restore).
      */
@@ -177,6 +581,87 @@ export class DeviceStatus {
         }
     }
 
+    /**
+     * Notes that the plugin just switched a gang, so the change it causes isn't taken for a button press.
+     */
+    recordGangCommand(id: string, sequence: number): void {
+        const statusObj = this.getStatusMap(id);
+        if (statusObj) {
+            statusObj.gangCommands[sequence] = Date.now();
+        }
+    }
+
+    /**
+     * Whether the plugin switched the gang within the last `windowMs`.
+     */
+    isRecentGangCommand(id: string, sequence: number, windowMs: number): boolean {
+        const commandedAt = this.getStatusMap(id)?.gangCommands[sequence];
+        return !!commandedAt && Date.now() - commandedAt < windowMs;
+    }
+
+    /**
+     * Applies an on/off command to the cache optimistically and tracks it until a status read confirms it.
+     * A newer command to the same gang replaces the pending one.
+     */
+    startGangCommand(id: string, sequence: number, statusmap: number): PendingGangCommand {
+        const bit = Math.pow(2, sequence);
+        const previous = (this.getStatusMap(id)?.statusmap ?? 0) & bit;
+        this.setGangBits(id, bit, statusmap);
+        const command = { target: statusmap & bit, previous, acknowledgedAt: 0 };
+        (this.getStatusMap(id) as Status).pendingGangs[sequence] = command;
+        return command;
+    }
+
+    /**
+     * Notes that the device or cloud accepted the command; its effect is expected in the next reads.
+     */
+    acknowledgeGangCommand(command: PendingGangCommand): void {
+        command.acknowledgedAt = Date.now();
+    }
+
+    /**
+     * Restores the gang's state from before a failed command. Returns false (and changes nothing) when
+     * a newer command to the gang has replaced this one.
+     */
+    rollbackGangCommand(id: string, sequence: number, command: PendingGangCommand): boolean {
+        const statusObj = this.getStatusMap(id);
+        if (!statusObj || statusObj.pendingGangs[sequence] !== command) {
+            return false;
+        }
+        delete statusObj.pendingGangs[sequence];
+        this.setGangBits(id, Math.pow(2, sequence), command.previous);
+        return true;
+    }
+
+    /**
+     * Checks a status read against the pending gang commands. A command is confirmed once the read shows it;
+     * in flight or within `graceMs` of being accepted the read may predate it, so the gang keeps its target;
+     * after that the command is given up as not applied and the read wins.
+     */
+    reconcileGangCommands(id: string, statusmap: number, graceMs: number): GangReconciliation {
+        const result: GangReconciliation = { statusmap, confirmed: [], notApplied: [] };
+        const statusObj = this.getStatusMap(id);
+        if (!statusObj) {
+            return result;
+        }
+        for (const [key, command] of Object.entries(statusObj.pendingGangs)) {
+            const sequence = Number(key);
+            const bit = Math.pow(2, sequence);
+            if ((statusmap & bit) === command.target) {
+                if (command.acknowledgedAt) {
+                    result.confirmed.push(sequence);
+                    delete statusObj.pendingGangs[sequence];
+                }
+            } else if (!command.acknowledgedAt || Date.now() - command.acknowledgedAt < graceMs) {
+                result.statusmap = (result.statusmap & ~bit) | command.target;
+            } else {
+                result.notApplied.push(sequence);
+                delete statusObj.pendingGangs[sequence];
+            }
+        }
+        return result;
+    }
+
     /**
      * Check if a refresh update should be skipped due to a recent command
      */
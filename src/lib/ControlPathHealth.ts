@@ -0,0 +1,58 @@
+import { PATH_FAILURE_THRESHOLD, PATH_RETRY_COOLDOWN } from "../constants";
+
+export type ControlPath = "local" | "cloud";
+
+interface PathState {
+    consecutiveFailures: number;
+    skipUntil: number;
+}
+
+/**
+ * Tracks per-device health of the local and cloud control paths.
+ * After PATH_FAILURE_THRESHOLD consecutive failures a path is skipped for PATH_RETRY_COOLDOWN ms,
+ * then tried again; a single success resets it.
+ */
+export class ControlPathHealth {
+    private states = new Map<string, PathState>();
+
+    constructor(
+        private failureThreshold = PATH_FAILURE_THRESHOLD,
+        private cooldownMs = PATH_RETRY_COOLDOWN,
+    ) { }
+
+    /**
+     * Whether the path should be tried for this device right now.
+     */
+    isAvailable(deviceId: string, path: ControlPath): boolean {
+        const state = this.states.get(this._key(deviceId, path));
+        return !state || Date.now() >= state.skipUntil;
+    }
+
+    recordSuccess(deviceId: string, path: ControlPath): void {
+        this.states.delete(this._key(deviceId, path));
+    }
+
+    /**
+     * Records a failure. Returns true when this failure put the path into its cooldown.
+     */
+    recordFailure(deviceId: string, path: ControlPath): boolean {
+        const key = this._key(deviceId, path);
+        const state = this.states.get(key) || { consecutiveFailures: 0, skipUntil: 0 };
+        state.consecutiveFailures++;
+        this.states.set(key, state);
+        if (state.consecutiveFailures >= this.failureThreshold) {
+            state.consecutiveFailures = 0;
+            state.skipUntil = Date.now() + this.cooldownMs;
+            return true;
+        }
+        return false;
+    }
+
+    get cooldownMinutes(): number {
+        return Math.round(this.cooldownMs / 60000);
+    }
+
+    private _key(deviceId: string, path: ControlPath): string {
+        return `${deviceId}:${path}`;
+    }
+}
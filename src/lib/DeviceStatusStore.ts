@@ -0,0 +1,120 @@
+import fs from "fs";
+import path from "path";
+import { Logger } from "homebridge";
+import { DeviceSettings, DeviceStatus, Status } from "./Config";
+import { STATUS_CACHE_FILE, STATUS_SAVE_DELAY } from "../constants";
+
+/**
+ * What is kept of a device's Status between restarts.
+ */
+interface PersistedStatus {
+    switchmap: number;
+    statusmap: number;
+    speedValue: number | null;
+    preservedSpeedValue: number | null;
+    preservedAtOff: number | null;
+    brightness?: Record<number, number>;
+    settings?: DeviceSettings;
+    offTimers?: Record<number, number>;
+    lastSeen: number;
+}
+
+/**
+ * Persists the DeviceStatus cache to a JSON file in Homebridge's storage path, so switches and fans
+ * show their last known state right after a restart instead of "off" until the first refresh.
+ */
+export class DeviceStatusStore {
+    private readonly filePath: string;
+    private saveTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly log: Logger,
+        storagePath: string,
+        private readonly deviceStatus: DeviceStatus = DeviceStatus.Instance(),
+    ) {
+        this.filePath = path.join(storagePath, STATUS_CACHE_FILE);
+    }
+
+    /**
+     * Loads the saved statuses into the cache. Entries already in the cache are left alone.
+     */
+    load() {
+        let saved: Record<string, PersistedStatus>;
+        try {
+            if (!fs.existsSync(this.filePath)) {
+                this.log.debug(`No saved device state at ${this.filePath}.`);
+                return;
+            }
+            saved = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.log.warn(`Ignoring unreadable device state file ${this.filePath}: ${errorMessage}`);
+            return;
+        }
+
+        let restored = 0;
+        for (const [id, entry] of Object.entries(saved || {})) {
+            if (!entry || typeof entry.statusmap !== "number" || this.deviceStatus.getStatusMap(id)) {
+                continue;
+            }
+            const status = new Status(id, entry.switchmap ?? 255, entry.statusmap, entry.speedValue ?? null);
+            status.preservedSpeedValue = entry.preservedSpeedValue ?? null;
+            status.preservedAtOff = entry.preservedAtOff ?? null;
+            status.brightness = entry.brightness ?? {};
+            // settingsUpdatedAt stays 0 so the settings are read again on the first refresh
+            status.settings = entry.settings ?? {};
+            status.offTimers = entry.offTimers ?? {};
+            status.lastSeen = entry.lastSeen || 0;
+            this.deviceStatus.statuses.push(status);
+            restored++;
+        }
+        this.log.info(`Restored saved state of ${restored} device(s).`);
+    }
+
+    /**
+     * Saves a moment later, so bursts of updates result in a single write.
+     */
+    scheduleSave() {
+        if (this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, STATUS_SAVE_DELAY);
+    }
+
+    /**
+     * Writes the cache now (used on shutdown).
+     */
+    save() {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        const data: Record<string, PersistedStatus> = {};
+        for (const status of this.deviceStatus.statuses) {
+            data[status.id] = {
+                switchmap: status.switchmap,
+                statusmap: status.statusmap,
+                speedValue: status.speedValue,
+                preservedSpeedValue: status.preservedSpeedValue,
+                preservedAtOff: status.preservedAtOff,
+                brightness: status.brightness,
+                settings: status.settings,
+                offTimers: status.offTimers,
+                lastSeen: status.lastSeen,
+            };
+        }
+        try {
+            // Write to a temp file first so a crash mid-write can't leave a truncated cache
+            const tmpPath = `${this.filePath}.tmp`;
+            fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+            fs.renameSync(tmpPath, this.filePath);
+            this.log.debug(`Saved state of ${Object.keys(data).length} device(s) to ${this.filePath}.`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.log.warn(`Failed to save device state to ${this.filePath}: ${errorMessage}`);
+        }
+    }
+}
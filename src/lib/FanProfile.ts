@@ -0,0 +1,130 @@
+import { BASE_FAN_SPEED, FAN_APPLIANCE_MAP, MAX_FAN_SPEED_UNIT } from "../constants";
+
+/**
+ * Fan profile options as written in config.json (platform-wide `fanProfile` or per device).
+ */
+export interface FanProfileConfig {
+    steps?: number; // Number of speed steps (excluding OFF)
+    percents?: number[]; // HomeKit percentage for each step, e.g. [20, 40, 60, 80, 100]
+    applianceMap?: number; // appliancemap/switchmap the regulator answers to
+    baseValue?: number; // Offset the device adds to the step in its statusmap
+}
+
+/**
+ * Describes one kind of fan regulator: how many speed steps it has, how each step maps to a
+ * HomeKit RotationSpeed percentage, and how the device encodes a step.
+ * Steps are numbered 1..steps; 0 is OFF.
+ */
+export class FanProfile {
+    public static readonly DEFAULT = new FanProfile();
+
+    public readonly steps: number;
+    public readonly percents: number[];
+    public readonly applianceMap: number;
+    public readonly baseValue: number;
+
+    constructor(steps = MAX_FAN_SPEED_UNIT, percents?: number[], applianceMap = FAN_APPLIANCE_MAP, baseValue = BASE_FAN_SPEED) {
+        this.steps = Math.max(1, Math.round(steps));
+        this.percents = (percents && FanProfile._checkPercents(percents, this.steps) === undefined)
+            ? percents.map(percent => Math.max(1, Math.min(100, percent))).sort((a, b) => a - b)
+            : FanProfile._evenPercents(this.steps);
+        this.applianceMap = applianceMap;
+        this.baseValue = baseValue;
+    }
+
+    /**
+     * Builds a profile from config, falling back to `base` for anything not set.
+     * Unusable `percents` are replaced by evenly spaced ones and reported through `warn`.
+     */
+    static fromConfig(config: FanProfileConfig | undefined, base: FanProfile = FanProfile.DEFAULT,
+        warn?: (message: string) => void): FanProfile {
+        if (!config || typeof config !== "object") {
+            return base;
+        }
+        const steps = typeof config.steps === "number" && config.steps > 0 ? config.steps : base.steps;
+        const percents = Array.isArray(config.percents) ? config.percents.map(Number)
+            : (steps === base.steps ? base.percents : undefined);
+        const problem = Array.isArray(config.percents) && percents ? FanProfile._checkPercents(percents, Math.round(steps)) : undefined;
+        if (problem && warn) {
+            warn(`Ignoring fanProfile percents ${JSON.stringify(config.percents)}: ${problem}; using evenly spaced speeds`);
+        }
+        return new FanProfile(
+            steps,
+            percents,
+            typeof config.applianceMap === "number" ? config.applianceMap : base.applianceMap,
+            typeof config.baseValue === "number" ? config.baseValue : base.baseValue,
+        );
+    }
+
+    /**
+     * Slider granularity for RotationSpeed. Evenly spaced speeds snap to the regulator's steps;
+     * custom percents need 1 since HAP rounds every value to a multiple of minStep.
+     */
+    get minStep(): number {
+        const even = FanProfile._evenPercents(this.steps);
+        return this.percents.every((percent, index) => percent === even[index]) ? 100 / this.steps : 1;
+    }
+
+    /**
+     * Why `percents` can't be used for a profile with `steps` speeds, or undefined if it can.
+     */
+    private static _checkPercents(percents: number[], steps: number): string | undefined {
+        if (percents.length !== steps) {
+            return `expected ${steps} values, got ${percents.length}`;
+        }
+        if (percents.some(percent => !Number.isFinite(percent))) {
+            return "every value must be a number";
+        }
+        return undefined;
+    }
+
+    private static _evenPercents(steps: number): number[] {
+        return Array.from({ length: steps }, (_, index) => Math.round(((index + 1) * 100) / steps));
+    }
+
+    /**
+     * Converts a speed step to a HomeKit percentage. 0/invalid -> 0, above the last step -> 100.
+     */
+    valueToPercent(value: number | null | undefined): number {
+        if (value === null || value === undefined || value <= 0) {
+            return 0;
+        }
+        if (value > this.steps) {
+            return 100;
+        }
+        return this.percents[Math.round(value) - 1] ?? 0;
+    }
+
+    /**
+     * Converts a HomeKit percentage to a speed step: 0% -> 0 (OFF), otherwise the lowest step
+     * whose percentage is at least the requested one (percents are kept sorted).
+     */
+    percentToValue(percent: number): number {
+        if (percent <= 0) {
+            return 0;
+        }
+        const index = this.percents.findIndex(stepPercent => percent <= stepPercent);
+        return index === -1 ? this.steps : index + 1;
+    }
+
+    /**
+     * Decodes a regulator statusmap into a speed step (0 = OFF).
+     */
+    decodeStatus(statusmap: number): number {
+        if (statusmap <= 0) {
+            return 0;
+        }
+        if (statusmap === 1) {
+            return 1;
+        }
+        const speed = statusmap - this.baseValue;
+        return speed < 0 ? 0 : Math.min(this.steps, speed);
+    }
+
+    /**
+     * Encodes a speed step the way the regulator reports it in its statusmap.
+     */
+    encodeStatus(value: number): number {
+        return value <= 0 ? 0 : this.baseValue + Math.min(this.steps, value);
+    }
+}
@@ -0,0 +1,76 @@
+import http from "http";
+import https from "https";
+import axios, { AxiosInstance } from "axios";
+import { SmarteefiCancelledError, SmarteefiError, SmarteefiTimeoutError } from "./SmarteefiErrors";
+
+export interface HttpRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+    timeout: number; // ms
+    signal?: AbortSignal;
+}
+
+export interface HttpResponse {
+    statusCode: number;
+    body: string;
+}
+
+/**
+ * Sends the cloud client's HTTP requests. Any status code is a response; only transport
+ * failures reject (SmarteefiTimeoutError, SmarteefiCancelledError or SmarteefiError).
+ * Swap it out to point the client at a stand-in server or record traffic.
+ */
+export interface HttpTransport {
+    send(request: HttpRequest): Promise<HttpResponse>;
+    close?(): void;
+}
+
+/**
+ * Default transport: axios over keep-alive agents so polling reuses connections.
+ */
+export class AxiosHttpTransport implements HttpTransport {
+    private httpAgent = new http.Agent({ keepAlive: true, maxSockets: 4 });
+    private httpsAgent = new https.Agent({ keepAlive: true, maxSockets: 4 });
+    private client: AxiosInstance;
+
+    constructor() {
+        this.client = axios.create({
+            httpAgent: this.httpAgent,
+            httpsAgent: this.httpsAgent,
+            responseType: "text",
+            transformResponse: (data) => data, // Keep the raw body; the client parses it
+            validateStatus: () => true,
+        });
+    }
+
+    async send(request: HttpRequest): Promise<HttpResponse> {
+        try {
+            const response = await this.client.request<string>({
+                method: request.method,
+                url: request.url,
+                headers: request.headers,
+                data: request.body,
+                timeout: request.timeout,
+                signal: request.signal,
+            });
+            return { statusCode: response.status, body: typeof response.data === "string" ? response.data : String(response.data ?? "") };
+        } catch (error) {
+            if (axios.isCancel(error) || request.signal?.aborted) {
+                throw new SmarteefiCancelledError("Request cancelled");
+            }
+            const code = axios.isAxiosError(error) ? error.code : undefined;
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (code === "ECONNABORTED" || code === "ETIMEDOUT") {
+                throw new SmarteefiTimeoutError(`Request timed out after ${request.timeout}ms`);
+            }
+            throw new SmarteefiError(`Request error: ${errorMessage}`);
+        }
+    }
+
+    close() {
+        this.httpAgent.destroy();
+        this.httpsAgent.destroy();
+    }
+}
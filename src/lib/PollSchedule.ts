@@ -0,0 +1,92 @@
+import { FAST_POLL_INTERVAL, FAST_POLL_WINDOW, IDLE_POLL_AFTER, IDLE_POLL_INTERVAL, OFFLINE_POLL_INTERVAL } from "../constants";
+
+interface DeviceSchedule {
+    lastPolledAt: number;
+    lastChangeAt: number;
+    fastUntil: number;
+    offline: boolean;
+}
+
+/**
+ * Decides how often each device is polled:
+ *  - every FAST_POLL_INTERVAL for FAST_POLL_WINDOW after a command or a detected state change
+ *  - every `baseInterval` (refreshDelay) normally
+ *  - every IDLE_POLL_INTERVAL once nothing has changed for IDLE_POLL_AFTER
+ *  - every OFFLINE_POLL_INTERVAL while the device is offline
+ */
+export class PollSchedule {
+    private devices = new Map<string, DeviceSchedule>();
+
+    constructor(
+        private readonly baseInterval: number,
+        private readonly adaptive = true,
+    ) { }
+
+    /**
+     * Shortest interval any device can be polled at; the refresh timer ticks at this rate.
+     */
+    get tickInterval(): number {
+        return this.adaptive ? Math.min(FAST_POLL_INTERVAL, this.baseInterval) : this.baseInterval;
+    }
+
+    /**
+     * A command was sent: poll the device right away and then quickly for a while.
+     */
+    boost(deviceId: string, now = Date.now()) {
+        const schedule = this._get(deviceId, now);
+        schedule.fastUntil = now + FAST_POLL_WINDOW;
+        schedule.lastPolledAt = 0;
+    }
+
+    /**
+     * Records the outcome of a poll. `changed` means the device reported a state other than the cached one.
+     */
+    recordPoll(deviceId: string, changed: boolean, offline: boolean, now = Date.now()) {
+        const schedule = this._get(deviceId, now);
+        schedule.lastPolledAt = now;
+        schedule.offline = offline;
+        if (changed) {
+            schedule.lastChangeAt = now;
+            schedule.fastUntil = now + FAST_POLL_WINDOW;
+        }
+    }
+
+    isDue(deviceId: string, now = Date.now()): boolean {
+        const schedule = this.devices.get(deviceId);
+        if (!schedule || schedule.lastPolledAt === 0) {
+            return true;
+        }
+        // Allow one tick of slack so a device isn't pushed back a whole tick by timer drift
+        return now - schedule.lastPolledAt + this.tickInterval / 2 >= this.intervalFor(deviceId, now);
+    }
+
+    intervalFor(deviceId: string, now = Date.now()): number {
+        const schedule = this.devices.get(deviceId);
+        if (!schedule || !this.adaptive) {
+            return this.baseInterval;
+        }
+        if (schedule.offline) {
+            return Math.max(OFFLINE_POLL_INTERVAL, this.baseInterval);
+        }
+        if (now < schedule.fastUntil) {
+            return Math.min(FAST_POLL_INTERVAL, this.baseInterval);
+        }
+        if (now - schedule.lastChangeAt >= IDLE_POLL_AFTER) {
+            return Math.max(IDLE_POLL_INTERVAL, this.baseInterval);
+        }
+        return this.baseInterval;
+    }
+
+    isOffline(deviceId: string): boolean {
+        return !!this.devices.get(deviceId)?.offline;
+    }
+
+    private _get(deviceId: string, now: number): DeviceSchedule {
+        let schedule = this.devices.get(deviceId);
+        if (!schedule) {
+            schedule = { lastPolledAt: 0, lastChangeAt: now, fastUntil: 0, offline: false };
+            this.devices.set(deviceId, schedule);
+        }
+        return schedule;
+    }
+}
@@ -1,22 +1,39 @@
 import { Logger } from "homebridge";
-import { Config, Device } from "./Config"; // Assuming ./Config exports these types
-import request from 'request';
-import { SmarteefiLocalAPIHelper } from "./SmarteefiLocalAPIHelper"; // Assuming this helper exists
+import { Config, ControlMode, Device, DeviceSetting, DeviceSettings, HardwareInfo } from "./Config"; // Assuming ./Config exports these types
+import { FanProfile } from "./FanProfile";
+import { SmarteefiLocalAPIHelper } from "./SmarteefiLocalAPIHelper";
+import { ControlPathHealth } from "./ControlPathHealth";
+import { SwitchCommandQueue } from "./SwitchCommandQueue";
+import * as SmarteefiHelper from "./SmarteefiHelper";
+import { COMMAND_TIMEOUT_MARGIN, COMMAND_TIMEOUT_MAX, HYBRID_LOCAL_RETRIES, LOCAL_MAX_RETRIES, LOCAL_RESPONSE_TIMEOUT, LOGIN_RETRY_MAX_DELAY, LOGIN_RETRY_MIN_DELAY, PLUGIN_NAME } from "../constants";
+import { AxiosHttpTransport, HttpTransport } from "./HttpTransport";
+import { ApiResult, DeviceSettingsResponse, DeviceStatusResponse, FanSpeedResponse, LoginResponse, UserDevicesResponse } from "./SmarteefiTypes";
+import { SmarteefiApiError, SmarteefiAuthError, SmarteefiCancelledError, SmarteefiDeviceOfflineError, SmarteefiError, SmarteefiHttpError, SmarteefiUnsupportedError } from "./SmarteefiErrors";
+
+const DEVICE_OFFLINE_ECODE = 6;
+// Failure reasons the cloud uses when the access token is missing, expired or revoked
+const AUTH_FAILURE_PATTERN = /token|unauthori[sz]ed|not logged in|login required|session/i;
+// Failure reasons that show the cloud refused a setstatus duration rather than the command itself
+const DURATION_REJECTED_PATTERN = /duration/i;
+// Field of each device setting in the settings requests and responses
+const SETTING_FIELDS: Record<DeviceSetting, keyof DeviceSettingsResponse> = { childLock: "childlock", indicatorLed: "led" };
 
 export class SmarteefiAPIHelper {
     // ... (Constructor and other methods remain the same) ...
-    private constructor(config: Config, log: Logger) {
+    private constructor(config: Config, log: Logger, transport?: HttpTransport) {
         this.log = log; // Assign log first
         this.log.info("Initializing SmarteefiAPIHelper...");
         this.userid = config.userid;
         this.password = config.password; // Keep password private, avoid logging it directly
-        this.apiHost = `https://www.smarteefi.com/api/v3`; // Updated to v3 API
+        this.apiHost = config.apiHost;
         this.config = config;
         this.token = ""; // Initialize token
-        
+        this.transport = transport || new AxiosHttpTransport();
+        this.switchQueue = new SwitchCommandQueue(log, (deviceId, ip, switchmap, statusmap, duration) => this.setSwitchStatus(deviceId, ip, switchmap, statusmap, false, duration));
+
         // Mask email for privacy (show only first 2 chars and domain)
         const maskedEmail = this.userid ? this.userid.substring(0, 2) + '***@' + this.userid.split('@')[1] : 'unknown';
-        this.log.info(`API Helper configured for user: ${maskedEmail}, API Host: ${this.apiHost}, Local Control: ${config.local}`);
+        this.log.info(`API Helper configured for user: ${maskedEmail}, API Host: ${this.apiHost}, Control Mode: ${config.controlMode}`);
     }
 
     private userid = "";
@@ -26,271 +43,416 @@ export class SmarteefiAPIHelper {
     private config: Config;
     private static _instance: SmarteefiAPIHelper;
     private token: string; // Store the access token
-
-    public static Instance(config: Config, log: Logger) { // Use the 'log' parameter here
+    private pathHealth = new ControlPathHealth(); // Per-device local/cloud health for hybrid mode
+    private discoveredIps = new Map<string, string>(); // serial -> IP from LAN discovery
+    private hardware = new Map<string, HardwareInfo>(); // serial -> details from the last fetchDevices
+    private switchQueue: SwitchCommandQueue; // Merges concurrent gang changes per device
+    private timedCommandsRejected = new Set<string>(); // Serials whose cloud rejected a setstatus duration
+    private transport: HttpTransport;
+    private abortController = new AbortController(); // Aborted on shutdown to cancel in-flight requests
+    private loginInFlight: Promise<string> | null = null; // Shared by concurrent callers
+    private loginLoop: Promise<string> | null = null; // login() with its retries, shared until it settles
+
+    /**
+     * `transport` replaces the default axios transport, e.g. to talk to a stand-in server.
+     */
+    public static Instance(config: Config, log: Logger, transport?: HttpTransport) { // Use the 'log' parameter here
         if (this._instance) {
             //log.info("Returning existing SmarteefiAPIHelper instance."); // FIX: Use 'log' parameter
             this._instance.config = config; // Update config if needed
             this._instance.log = log; // Update logger if needed
+            if (transport) {
+                this._instance.transport = transport;
+            }
         } else {
             //log.info("Creating new SmarteefiAPIHelper instance."); // FIX: Use 'log' parameter
-            this._instance = new this(config, log);
+            this._instance = new this(config, log, transport);
         }
         return this._instance;
     }
 
+    /**
+     * Cancels in-flight requests and pending login retries, and closes pooled connections.
+     */
+    shutdown() {
+        this.abortController.abort();
+        this.transport.close?.();
+    }
+
     public isLoggedIn(): boolean {
         return !!this.token && this.token.length > 0;
     }
 
-    login(cb) {
+    /**
+     * Whether a login (possibly waiting out its backoff) is running.
+     */
+    public isLoggingIn(): boolean {
+        return this.loginLoop !== null;
+    }
+
+    /**
+     * Logs in and resolves with the access token. Failed attempts are retried with exponential backoff
+     * (LOGIN_RETRY_MIN_DELAY doubling up to LOGIN_RETRY_MAX_DELAY) until one succeeds;
+     * rejects with SmarteefiCancelledError once the helper is shut down.
+     * Callers arriving while a login is retrying share it, so there is only ever one backoff loop.
+     */
+    login(): Promise<string> {
+        if (!this.loginLoop) {
+            this.loginLoop = this._loginWithRetries().finally(() => {
+                this.loginLoop = null;
+            });
+        }
+        return this.loginLoop;
+    }
+
+    async _loginWithRetries(): Promise<string> {
         const maskedEmail = this.userid ? this.userid.substring(0, 2) + '***@' + this.userid.split('@')[1] : 'unknown';
-        this.log.info(`Attempting login for user: ${maskedEmail} to ${this.apiHost}...`);
-        this._loginApiCall(this.apiHost + "/user/login", {}, (token) => {
-            if (!token) {
-                this.log.warn(`Login failed for user: ${maskedEmail}. Retrying in 60 seconds...`);
-                setTimeout(() => {
-                    this.log.info("Retrying login...");
-                    this.login(cb);
-                }, 60000);
-                // Optionally pass failure back if needed: cb(null);
-            } else {
+        let delay = LOGIN_RETRY_MIN_DELAY;
+        for (;;) {
+            try {
+                const token = await this._loginOnce();
                 this.log.info(`Login successful for user: ${maskedEmail}. Token acquired.`);
-                cb(token); // Pass the token back
+                return token;
+            } catch (error) {
+                if (error instanceof SmarteefiCancelledError) {
+                    throw error;
+                }
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                this.log.warn(`Login failed for user: ${maskedEmail} (${errorMessage}). Retrying in ${Math.round(delay / 1000)} seconds...`);
+                await this._delay(delay);
+                delay = Math.min(delay * 2, LOGIN_RETRY_MAX_DELAY);
+                this.log.info("Retrying login...");
             }
-        });
+        }
+    }
+
+    /**
+     * One login attempt. Callers arriving while an attempt is running share its result.
+     */
+    _loginOnce(): Promise<string> {
+        if (!this.loginInFlight) {
+            const maskedEmail = this.userid ? this.userid.substring(0, 2) + '***@' + this.userid.split('@')[1] : 'unknown';
+            this.log.info(`Attempting login for user: ${maskedEmail} to ${this.apiHost}...`);
+            this.loginInFlight = this._loginApiCall(this.apiHost + "/user/login").finally(() => {
+                this.loginInFlight = null;
+            });
+        }
+        return this.loginInFlight;
     }
 
 
-    fetchDevices(cb: (devices: Device[]) => void) {
+    /**
+     * Fetches the account's switches and builds one Device per gang.
+     * Rejects when the device list could not be retrieved, so callers can tell
+     * "no devices" apart from "discovery failed".
+     */
+    async fetchDevices(): Promise<Device[]> {
         const discoveredDevices: Device[] = [];
-        let completedApiCalls = 0; // Track completed API calls
 
         // ** Use the internally stored config object **
         const deviceIds = this.config.devices;
         const ipAddresses = this.config.ip;
-        const isFanFlags = this.config.isFan; // This array indicates if the *physical device* supports fan
 
         const totalDevicesToQuery = deviceIds.length;
 
-        this.log.info(`Fetching details for ${totalDevicesToQuery} configured device groups from API...`);
+        this.log.info(`Fetching details for ${totalDevicesToQuery} configured device groups from API${this.config.importAllDevices ? ' (importing all account devices)' : ''}...`);
 
-        if (totalDevicesToQuery === 0) {
+        if (totalDevicesToQuery === 0 && !this.config.importAllDevices) {
             this.log.warn("fetchDevices called, but no devices found in the stored config.");
-            return cb([]); // Return empty array immediately
+            return []; // Return empty array immediately
         }
 
         // Call the API *once* to get details for all switches (assuming this is how it works)
         // If the API requires one call per deviceId, the loop structure needs to be different.
         // Assuming /user/devices returns details for *all* switches linked to the token.
         this.log.debug(`Calling ${this.apiHost}/user/devices to fetch all switch details...`);
-        this._apiCall(`${this.apiHost}/user/devices`, "POST", { "UserDevice": { "access_token": this.token } }, (_body, err) => {
-            if (err) {
-                this.log.error(`Failed API call to get switch details (/user/devices): ${err.message || err}`);
-                return cb([]); // Return empty on API failure
+        let allSwitchesData: UserDevicesResponse;
+        try {
+            allSwitchesData = await this._authorizedPost<UserDevicesResponse>("/user/devices", (token) => ({ "UserDevice": { "access_token": token } }), "get switch details");
+            if (!Array.isArray(allSwitchesData.switches)) {
+                throw new SmarteefiApiError(`Invalid response structure from /user/devices: ${JSON.stringify(allSwitchesData)}`);
             }
+            this.log.debug(`Received ${allSwitchesData.switches.length} total switches from API.`);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.log.error(`Failed API call to get switch details (/user/devices): ${msg}`);
+            throw error;
+        }
 
-            let allSwitchesData: { result?: string, switches?: { name: string, map: string, serial?: string }[] } = {}; // Added serial assuming API returns it
-            try {
-                if (!_body) throw new Error("Empty response body from /user/devices");
-                allSwitchesData = JSON.parse(_body);
-                if (!allSwitchesData || !Array.isArray(allSwitchesData.switches)) {
-                    throw new Error(`Invalid response structure from /user/devices. Body: ${_body}`);
-                }
-                 this.log.debug(`Received ${allSwitchesData.switches.length} total switches from API.`);
-            } catch (error) {
-                const msg = error instanceof Error ? error.message : String(error);
-                this.log.error(`Failed to parse response from /user/devices: ${msg}`);
-                return cb([]); // Return empty on parsing failure
+        const apiSwitches = allSwitchesData.switches;
+
+        // Configured devices first, then (in import mode) every other serial on the account
+        const devicesToProcess = [...deviceIds];
+        for (const sw of apiSwitches) {
+            if (sw?.serial && !devicesToProcess.includes(sw.serial) && this.config.shouldImport(sw.serial)) {
+                this.log.info(`Importing account device ${sw.serial} (not in configured devices list).`);
+                devicesToProcess.push(sw.serial);
             }
+        }
 
-            const apiSwitches = allSwitchesData.switches;
+        // Now iterate through the devices and match them with the API results
+        for (let index = 0; index < devicesToProcess.length; index++) {
+            const configDeviceId = devicesToProcess[index];
+            const configIpAddress = this._getDeviceIp(configDeviceId, index < totalDevicesToQuery ? ipAddresses[index] : null);
 
-            // Now iterate through the *configured* devices and match them with the API results
-            for (let index = 0; index < totalDevicesToQuery; index++) {
-                const configDeviceId = deviceIds[index];
-                const configIpAddress = ipAddresses[index];
-                // const configIsFanDevice = isFanFlags[index]; // Might not be needed here if fan type determined by switch name
+            this.log.debug(`Processing configured device ID: ${configDeviceId}`);
 
-                this.log.debug(`Processing configured device ID: ${configDeviceId}`);
+            // Filter switches from the API response that belong to this configured deviceId
+            // *** IMPORTANT: Assumes API response includes 'serial' field matching configDeviceId ***
+            const switchesForThisDevice = apiSwitches.filter(sw => sw.serial === configDeviceId);
 
-                // Filter switches from the API response that belong to this configured deviceId
-                // *** IMPORTANT: Assumes API response includes 'serial' field matching configDeviceId ***
-                const switchesForThisDevice = apiSwitches.filter(sw => sw.serial === configDeviceId);
+            if (switchesForThisDevice.length === 0) {
+                 this.log.warn(`No switches found in API response matching configured device ID: ${configDeviceId}`);
+            } else {
+                this.hardware.set(configDeviceId, {
+                    serial: configDeviceId,
+                    gangCount: switchesForThisDevice.length,
+                    model: switchesForThisDevice.find(sw => sw?.model)?.model,
+                    firmware: SmarteefiHelper.toFirmwareRevision(switchesForThisDevice.find(sw => sw?.fwversion)?.fwversion),
+                    updatedAt: Date.now(),
+                });
+            }
 
-                if (switchesForThisDevice.length === 0) {
-                     this.log.warn(`No switches found in API response matching configured device ID: ${configDeviceId}`);
+            let counter = 0; // Counter for the sequence within this device
+            for (const sw of switchesForThisDevice) {
+                 if (!sw || typeof sw.name !== 'string') {
+                     this.log.warn(`Skipping invalid switch data for device ${configDeviceId}: ${JSON.stringify(sw)}`);
+                     continue;
                 }
 
-                let counter = 0; // Counter for the sequence within this device
-                for (const sw of switchesForThisDevice) {
-                     if (!sw || typeof sw.name !== 'string') {
-                         this.log.warn(`Skipping invalid switch data for device ${configDeviceId}: ${JSON.stringify(sw)}`);
-                         continue;
-                    }
-
-                    // Determine if this specific switch is a fan based on its name
-                    const lowerCaseName = sw.name.toLowerCase();
-                    // Using the refined fan identification logic
-                    const isThisSwitchActuallyFan = (lowerCaseName.includes("fan") || lowerCaseName.includes("regulator")) && !lowerCaseName.includes("light");
-
-                    this.log.info(`Discovered: ${configDeviceId} - '${sw.name}' (Sequence: ${counter}, isFan: ${isThisSwitchActuallyFan})`);
-
-                    // Create the Device object using data for this specific switch
-                    const dev = new Device(
-                        configDeviceId,         // The physical device ID
-                        counter,                // The sequence/index of this switch within the device
-                        sw.name,                // Name from API
-                        configIpAddress,        // IP from config for this device
-                        isThisSwitchActuallyFan // Determined fan status
-                    );
-                    discoveredDevices.push(dev);
+                const gangConfig = this.config.getGangConfig(configDeviceId, counter);
+                if (gangConfig?.hidden) {
+                    this.log.info(`Skipping hidden gang: ${configDeviceId} - '${sw.name}' (Sequence: ${counter})`);
                     counter++;
+                    continue;
                 }
-            } // End loop through configured devices
 
-            // Call the callback with all discovered & processed devices
-            this.log.info(`Finished processing discovered devices. Found ${discoveredDevices.length} accessories.`);
-            cb(discoveredDevices);
-        }); // End _apiCall callback
-    } 
+                // Determine if this specific switch is a fan based on its name
+                const lowerCaseName = sw.name.toLowerCase();
+                // Using the refined fan identification logic
+                const isThisSwitchActuallyFan = (lowerCaseName.includes("fan") || lowerCaseName.includes("regulator")) && !lowerCaseName.includes("light");
+                // A type configured under `gangs` overrides the name-based guess; dimmers are only ever configured
+                const configuredType = gangConfig?.type;
+                const gangType = configuredType ?? (isThisSwitchActuallyFan ? "regulator" : "switch");
+                const gangName = gangConfig?.name ?? sw.name;
+
+                this.log.info(`Discovered: ${configDeviceId} - '${gangName}' (Sequence: ${counter}, Type: ${gangType}${configuredType ? ' (configured)' : ''}${gangConfig?.inverted ? ', inverted' : ''})`);
+
+                // Create the Device object using data for this specific switch
+                const dev = new Device(
+                    configDeviceId,         // The physical device ID
+                    counter,                // The sequence/index of this switch within the device
+                    gangName,               // Name from config, else from API
+                    configIpAddress,        // Discovered IP, else IP from config for this device
+                    gangType,               // HomeKit service type
+                    !!gangConfig?.inverted,
+                    gangConfig?.buttonEvents ?? this.config.buttonEvents,
+                    gangConfig?.autoOff ?? 0
+                );
+                discoveredDevices.push(dev);
+                counter++;
+            }
+        } // End loop through configured devices
+
+        // Point out LAN devices that answered discovery but aren't configured
+        this.discoveredIps.forEach((ip, serial) => {
+            if (!devicesToProcess.includes(serial)) {
+                this.log.info(`Device ${serial} found on the LAN at ${ip} is not in the configured devices list.`);
+            }
+        });
+
+        this.log.info(`Finished processing discovered devices. Found ${discoveredDevices.length} accessories.`);
+        return discoveredDevices;
+    }
 
-    // ... (setSwitchStatusLocally, setSwitchStatus, getSwitchStatus methods remain the same) ...
-    setSwitchStatusLocally(deviceId: string, switchmap: number, statusmap: number, ip: string, isFan: boolean) {
+    async setSwitchStatusLocally(deviceId: string, switchmap: number, statusmap: number, ip: string, isFan: boolean, retries?: number): Promise<DeviceStatusResponse> {
         this.log.info(`Using LOCAL control for Device ID: ${deviceId}, IP: ${ip}, Switchmap: ${switchmap}, Statusmap: ${statusmap}, IsFan: ${isFan}`);
+        const confirm = this.config.isLocalConfirmed(deviceId);
         try {
-            const localHelper = SmarteefiLocalAPIHelper.Instance(this.log);
-            localHelper.setDeviceStatus(deviceId, switchmap, statusmap, isFan, ip);
-             this.log.info(`Local control command sent for ${deviceId}.`);
+            const response = await SmarteefiLocalAPIHelper.Instance(this.log).setDeviceStatus(deviceId, switchmap, statusmap, isFan, ip, retries, this.getFanProfile(deviceId), confirm);
+            this.log.info(confirm
+                ? `Local control command acknowledged by ${deviceId} (statusmap=${response.statusmap}).`
+                : `Local control command sent to ${deviceId}.`);
+            return response;
         } catch (error) {
-             const errorMessage = error instanceof Error ? error.message : String(error);
-             this.log.error(`Error during local control attempt for ${deviceId}: ${errorMessage}`);
-        }
-    }
-
-    // async setSwitchStatus(deviceId: string, deviceIp: string, switchmap: number, statusmap: number, isFan: boolean, cb) {
-    //     this.log.info(`Request set: ${deviceId} (IP: ${deviceIp}) - Input SwMap: ${switchmap}, Input State: ${statusmap}, IsFan: ${isFan}`);
-
-    //     // --- Local Control Handling ---
-    //     if (this.config.local === true) {
-    //         this.log.info(`Routing set status for ${deviceId} to LOCAL control.`);
-    //         this.setSwitchStatusLocally(deviceId, switchmap, statusmap, deviceIp, isFan);
-    //         return cb({ result: 'success', switchmap: switchmap, statusmap: statusmap });
-    //     }
-
-    //     // --- Cloud Control Handling ---
-    //     if (!this.token) {
-    //          this.log.error(`Cannot set status for ${deviceId} via cloud: Not logged in.`);
-    //          return cb({ result: 'failure', reason: 'Not logged in', switchmap: 0, statusmap: 0 });
-    //     }
-
-    //     let apiSwitchmap: number;
-    //     let apiStatusmap: number;
-    //     let targetState: string;
-
-    //     if (isFan) {
-    //         // --- FAN CONTROL LOGIC ---
-
-    //         // *** WORKAROUND LOGIC to determine ON/OFF intent ***
-    //         // Based on logs: Input State 158 seems intended for OFF, others for ON.
-    //         // !!! THIS IS BRITTLE - Relies on consistent input values !!!
-    //         const OFF_STATE_INPUT_STATUSMAP = 158; // Assuming 158 means OFF based on logs
-    //         const isTurningOn = statusmap !== OFF_STATE_INPUT_STATUSMAP;
-    //         targetState = isTurningOn ? 'ON' : 'OFF';
-
-    //         this.log.warn(`Fan control for ${deviceId}: Input state ${statusmap}. Determined target state: ${targetState} (Using workaround logic!).`);
-
-    //         // *** Define the API-specific payloads for FAN ON/OFF ***
-    //         const FAN_ON_SWITCHMAP = 112;
-    //         const FAN_ON_STATUSMAP = 112;
-    //         // *** Confirmed OFF values ***
-    //         const FAN_OFF_SWITCHMAP = 112;
-    //         const FAN_OFF_STATUSMAP = 0;
-
-    //         if (isTurningOn) {
-    //             apiSwitchmap = FAN_ON_SWITCHMAP;
-    //             apiStatusmap = FAN_ON_STATUSMAP;
-    //              this.log.info(`   -> Using FAN ON payload: SwMap=${apiSwitchmap}, StatusMap=${apiStatusmap}`);
-    //         } else {
-    //             apiSwitchmap = FAN_OFF_SWITCHMAP;
-    //             apiStatusmap = FAN_OFF_STATUSMAP;
-    //              this.log.info(`   -> Using FAN OFF payload: SwMap=${apiSwitchmap}, StatusMap=${apiStatusmap}`);
-    //         }
-
-    //     } else {
-    //         // --- REGULAR SWITCH/LIGHT CONTROL LOGIC ---
-    //         const isTurningOn = statusmap !== 0;
-    //         targetState = isTurningOn ? 'ON' : 'OFF';
-    //         apiSwitchmap = switchmap; // Use the input switchmap (identifies the switch)
-    //         apiStatusmap = statusmap; // Use the input statusmap (0 or 1 usually for state)
-    //         this.log.info(`Switch/Light control for ${deviceId}: Target state ${targetState}. Using input SwMap=${apiSwitchmap}, StatusMap=${apiStatusmap}.`);
-    //     }
-
-    //     this.log.info(`Using CLOUD control for ${deviceId}. Sending API SwMap: ${apiSwitchmap}, API StatusMap: ${apiStatusmap}.`);
-
-    //     const commandObj = {
-    //         "DeviceStatus": {
-    //             "access_token": this.token,
-    //             "serial": deviceId,
-    //             "switchmap": apiSwitchmap,
-    //             "statusmap": apiStatusmap,
-    //             "duration": 0
-    //         }
-    //     };
-    //     const url = `${this.apiHost}/device/setstatus`;
-    //     this.log.info(`Sending POST request to ${url} for ${deviceId}. Payload: ${JSON.stringify(commandObj)}`);
-
-    //     // --- API Call and Response Handling (Minimal Logging) ---
-    //     await this._apiCall(url, "POST", commandObj, (_body, err) => {
-    //         let response = { result: "failure", switchmap: 0, statusmap: 0, reason: "Unknown API error" };
-    //         if (err) {
-    //             const errorMessage = err instanceof Error ? err.message : String(err);
-    //             this.log.error(`API call failed for set status on ${deviceId}: ${errorMessage}`);
-    //             response.reason = `API call error: ${errorMessage}`;
-    //         } else {
-    //             this.log.debug(`Received set status response for ${deviceId}.`);
-    //             try {
-    //                 if (!_body) {
-    //                     this.log.error(`Empty response body on set status for ${deviceId}.`);
-    //                     throw new Error("API response body is empty");
-    //                 }
-    //                 const parsedBody = JSON.parse(_body);
-    //                 this.log.debug(`Parsed set status response: ${JSON.stringify(parsedBody)}`);
-    //                 response = { ...response, ...parsedBody }; // Merge API response
-    //                 if (parsedBody.result !== 'success') {
-    //                      this.log.warn(`Cloud set status for ${deviceId} reported non-success: ${parsedBody.result}`);
-    //                 } else {
-    //                      this.log.info(`Cloud set status for ${deviceId} (${targetState}) successful.`);
-    //                 }
-    //             } catch (error) {
-    //                 const errorMessage = error instanceof Error ? error.message : String(error);
-    //                 this.log.error(`Failed to parse set status response for ${deviceId}: ${errorMessage}. Body: ${_body}`);
-    //                 response.result = 'failure';
-    //                 response.reason = `Failed to parse response: ${errorMessage}`;
-    //             }
-    //         }
-    //         this.log.debug(`Invoking callback for set status on ${deviceId} with result: ${response.result}`);
-    //         cb(response);
-    //     });
-    // }
-
-    async setSwitchStatus(deviceId: string, deviceIp: string, switchmap: number, statusmap: number, isFan: boolean, cb) {
-        // Log the inputs received from the accessory handler
-        this.log.info(`Request set: ${deviceId} (IP: ${deviceIp}) - Input SwMap: ${switchmap}, Input State: ${statusmap}, IsFan: ${isFan}`);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.log.warn(`Local control command for ${deviceId} failed: ${errorMessage}`);
+            throw error;
+        }
+    }
+
+    async getSwitchStatusLocally(deviceId: string, ip: string, retries?: number): Promise<DeviceStatusResponse> {
+        this.log.debug(`Using LOCAL status query for Device ID: ${deviceId}, IP: ${ip}`);
+        try {
+            return await SmarteefiLocalAPIHelper.Instance(this.log).getDeviceStatus(deviceId, ip, retries);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.log.warn(`Local status query for ${deviceId} failed: ${errorMessage}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Sends a request over the path(s) allowed by the control mode.
+     * In hybrid mode the LAN is tried first and the cloud is used when the device does not acknowledge;
+     * paths that keep failing for a device are skipped for a while (see ControlPathHealth).
+     */
+    async _routeRequest<T>(deviceId: string, ip: string, action: string,
+        localCall: (retries: number | undefined) => Promise<T>,
+        cloudCall: () => Promise<T>): Promise<T> {
+        const mode = this.config.controlMode;
+
+        if (mode === "cloud") {
+            return cloudCall();
+        }
+        if (!ip) {
+            this.log.warn(`No IP configured for ${deviceId}, using cloud for ${action}.`);
+            return cloudCall();
+        }
+        if (mode === "local") {
+            this.log.debug(`Routing ${action} for ${deviceId} to LOCAL control.`);
+            return localCall(undefined);
+        }
+
+        // --- Hybrid: local first, cloud fallback ---
+        const cloudWithHealth = async () => {
+            try {
+                const response = await cloudCall();
+                this.pathHealth.recordSuccess(deviceId, "cloud");
+                return response;
+            } catch (error) {
+                if (this.pathHealth.recordFailure(deviceId, "cloud")) {
+                    this.log.warn(`Cloud path for ${deviceId} keeps failing; preferring LAN only for ${this.pathHealth.cooldownMinutes} minutes.`);
+                }
+                throw error;
+            }
+        };
 
-        // --- Local Control Handling ---
-        if (this.config.local === true) {
-            this.log.info(`Routing set status for ${deviceId} to LOCAL control.`);
-            this.setSwitchStatusLocally(deviceId, switchmap, statusmap, deviceIp, isFan);
-            // Assume local success for callback
-            return cb({ result: 'success', switchmap: switchmap, statusmap: statusmap });
+        // Skip a dead local path unless the cloud path is dead too
+        if (!this.pathHealth.isAvailable(deviceId, "local") && this.pathHealth.isAvailable(deviceId, "cloud")) {
+            this.log.debug(`Local path for ${deviceId} is cooling down, using cloud for ${action}.`);
+            return cloudWithHealth();
         }
 
-        // --- Cloud Control Handling ---
-        if (!this.isLoggedIn()) { // Use public getter
-             this.log.error(`Cannot set status for ${deviceId} via cloud: Not logged in.`);
-             return cb({ result: 'failure', reason: 'Not logged in', switchmap: 0, statusmap: 0 });
+        try {
+            const response = await localCall(HYBRID_LOCAL_RETRIES);
+            this.pathHealth.recordSuccess(deviceId, "local");
+            return response;
+        } catch (error) {
+            if (this.pathHealth.recordFailure(deviceId, "local")) {
+                this.log.warn(`Local path for ${deviceId} keeps failing; using cloud only for ${this.pathHealth.cooldownMinutes} minutes.`);
+            }
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            // A cloud path in its cooldown isn't tried either; the LAN error is the answer
+            if (!this.pathHealth.isAvailable(deviceId, "cloud")) {
+                this.log.info(`Local ${action} for ${deviceId} failed (${errorMessage}); cloud path is cooling down, not falling back.`);
+                throw error;
+            }
+            this.log.info(`Local ${action} for ${deviceId} failed (${errorMessage}), falling back to cloud.`);
+            return cloudWithHealth();
+        }
+    }
+
+    /**
+     * Longest a command to a device can take over the path(s) `_routeRequest` uses: every local resend waiting for
+     * a reply, then (hybrid) one cloud request. `cloudOnly` is for requests that always go to the cloud.
+     */
+    getCommandTimeout(deviceId: string, cloudOnly = false): number {
+        const mode = this.config.controlMode;
+        if (cloudOnly || mode === "cloud" || !this._getDeviceIp(deviceId)) {
+            return this._getCloudCommandTimeout(deviceId);
         }
+        const local = this._getLocalCommandTimeout(deviceId);
+        return mode === "hybrid" ? local + this._getCloudCommandTimeout(deviceId) : local;
+    }
+
+    /**
+     * Longest the local leg of a command can take: every resend waiting for a reply, 0 when sent send-and-forget.
+     */
+    _getLocalCommandTimeout(deviceId: string): number {
+        const resends = this.config.controlMode === "hybrid" ? HYBRID_LOCAL_RETRIES : LOCAL_MAX_RETRIES;
+        return this.config.isLocalConfirmed(deviceId) ? LOCAL_RESPONSE_TIMEOUT * (resends + 1) : 0;
+    }
+
+    /**
+     * Timeout of a cloud command request: `requestTimeout`, shortened so that the whole command (after the local leg
+     * in hybrid mode, plus the margin) stays within COMMAND_TIMEOUT_MAX and HomeKit gets an answer before HAP gives up.
+     */
+    _getCloudCommandTimeout(deviceId: string): number {
+        const afterLocal = this.config.controlMode === "hybrid" && this._getDeviceIp(deviceId) ? this._getLocalCommandTimeout(deviceId) : 0;
+        return Math.min(this.config.requestTimeout, COMMAND_TIMEOUT_MAX - COMMAND_TIMEOUT_MARGIN - afterLocal);
+    }
+
+    /**
+     * Records serial -> IP mappings found by LAN discovery. These take precedence over configured IPs.
+     */
+    updateDeviceAddresses(addresses: Map<string, string>) {
+        addresses.forEach((ip, serial) => this.discoveredIps.set(serial, ip));
+    }
+
+    /**
+     * Returns the IP to use for a device: the address it last answered discovery from,
+     * else the given/configured IP, or an empty string if none is known.
+     */
+    _getDeviceIp(deviceId: string, fallbackIp?: string | null): string {
+        const discovered = this.discoveredIps.get(deviceId);
+        if (discovered) {
+            return discovered;
+        }
+        if (fallbackIp) {
+            return fallbackIp;
+        }
+        const index = this.config.devices.indexOf(deviceId);
+        return index >= 0 ? (this.config.ip[index] || '') : '';
+    }
+
+    /**
+     * Switches gangs on/off. Resolves once the device (local) or the cloud confirmed the command,
+     * rejects with a SmarteefiError otherwise. A `duration` (seconds) asks the device to revert the change
+     * by itself; only the cloud command carries it, so callers keep their own timer as well.
+     */
+    async setSwitchStatus(deviceId: string, configuredIp: string | null, switchmap: number, statusmap: number, isFan: boolean, duration = 0): Promise<DeviceStatusResponse> {
+        // Log the inputs received from the accessory handler
+        const deviceIp = this._getDeviceIp(deviceId, configuredIp);
+        this.log.info(`Request set: ${deviceId} (IP: ${deviceIp}) - Input SwMap: ${switchmap}, Input State: ${statusmap}, IsFan: ${isFan}${duration > 0 ? `, Duration: ${duration}s` : ''}`);
+
+        return this._routeRequest(deviceId, deviceIp, "set status",
+            // Only report success once the device has acknowledged the new state
+            (retries) => this.setSwitchStatusLocally(deviceId, switchmap, statusmap, deviceIp, isFan, retries),
+            () => this._setSwitchStatusCloudTimed(deviceId, switchmap, statusmap, isFan, duration));
+    }
+
+    /**
+     * Switches on/off gangs (not fan regulators) through the device's command queue: changes to several gangs
+     * of a device made at about the same time are sent as one masked command, never in parallel.
+     * Resolves with the result of the command that carried this change.
+     */
+    setGangStatus(deviceId: string, configuredIp: string | null, switchmap: number, statusmap: number, duration = 0): Promise<DeviceStatusResponse> {
+        return this.switchQueue.enqueue(deviceId, configuredIp, switchmap, statusmap, duration);
+    }
+
+    /**
+     * Sends setstatus with a device-side duration. If the cloud rejects the duration (its reason names it), the command
+     * is sent again without it and the device gets no more durations; the caller's timer then does the switching off alone.
+     * Any other failure is passed on unchanged.
+     */
+    async _setSwitchStatusCloudTimed(deviceId: string, switchmap: number, statusmap: number, isFan: boolean, duration: number): Promise<DeviceStatusResponse> {
+        if (duration <= 0 || this.timedCommandsRejected.has(deviceId)) {
+            return this._setSwitchStatusCloud(deviceId, switchmap, statusmap, isFan);
+        }
+        try {
+            return await this._setSwitchStatusCloud(deviceId, switchmap, statusmap, isFan, duration);
+        } catch (error) {
+            if (!(error instanceof SmarteefiApiError) || !DURATION_REJECTED_PATTERN.test(error.message)) {
+                throw error;
+            }
+            this.log.warn(`Cloud rejected a timed command for ${deviceId} (${error.message}); sending it without a duration from now on.`);
+            this.timedCommandsRejected.add(deviceId);
+            return this._setSwitchStatusCloud(deviceId, switchmap, statusmap, isFan);
+        }
+    }
+
+    async _setSwitchStatusCloud(deviceId: string, switchmap: number, statusmap: number, isFan: boolean, duration = 0): Promise<DeviceStatusResponse> {
 
         let apiSwitchmap: number;
         let apiStatusmap: number;
@@ -307,10 +469,11 @@ export class SmarteefiAPIHelper {
             this.log.info(`Fan control for ${deviceId}: Input state ${statusmap}. Determined target state: ${targetState}.`);
 
             // *** Define the API-specific payloads for FAN ON/OFF ***
-            // Values confirmed previously by user debugging.
-            const FAN_ON_SWITCHMAP = 112;
-            const FAN_ON_STATUSMAP = 112;
-            const FAN_OFF_SWITCHMAP = 112;
+            // The regulator answers to its appliance map; ON sets all of its bits, OFF clears them.
+            const applianceMap = this.getFanProfile(deviceId).applianceMap;
+            const FAN_ON_SWITCHMAP = applianceMap;
+            const FAN_ON_STATUSMAP = applianceMap;
+            const FAN_OFF_SWITCHMAP = applianceMap;
             const FAN_OFF_STATUSMAP = 0;
 
             if (isTurningOn) {
@@ -336,291 +499,378 @@ export class SmarteefiAPIHelper {
 
         this.log.info(`Using CLOUD control for ${deviceId}. Sending API SwMap: ${apiSwitchmap}, API StatusMap: ${apiStatusmap}.`);
 
-        const commandObj = {
+        const commandObj = (token: string) => ({
             "DeviceStatus": {
-                "access_token": this.token, // Access private token within the class
+                "access_token": token,
                 "serial": deviceId,
                 "switchmap": apiSwitchmap,
                 "statusmap": apiStatusmap,
-                "duration": 0
-            }
-        };
-        const url = `${this.apiHost}/device/setstatus`;
-        this.log.debug(`Sending POST request to ${url} for ${deviceId}. Payload: ${JSON.stringify(commandObj)}`);
-
-        // --- API Call and Response Handling (Minimal Logging) ---
-        await this._apiCall(url, "POST", commandObj, (_body, err) => {
-            let response = { result: "failure", switchmap: 0, statusmap: 0, reason: "Unknown API error" };
-            if (err) {
-                const errorMessage = err instanceof Error ? err.message : String(err);
-                this.log.error(`API call failed for set status on ${deviceId}: ${errorMessage}`);
-                response.reason = `API call error: ${errorMessage}`;
-            } else {
-                this.log.debug(`Received set status response for ${deviceId}.`);
-                try {
-                    if (!_body) {
-                        this.log.error(`Empty response body on set status for ${deviceId}.`);
-                        throw new Error("API response body is empty");
-                    }
-                    const parsedBody = JSON.parse(_body);
-                    this.log.debug(`Parsed set status response: ${JSON.stringify(parsedBody)}`);
-                    response = { ...response, ...parsedBody }; // Merge API response
-                    if (parsedBody.result !== 'success') {
-                         this.log.warn(`Cloud set status for ${deviceId} reported non-success: ${parsedBody.result}`);
-                    } else {
-                         this.log.info(`Cloud set status for ${deviceId} (${targetState}) successful.`);
-                    }
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : String(error);
-                    this.log.error(`Failed to parse set status response for ${deviceId}: ${errorMessage}. Body: ${_body}`);
-                    response.result = 'failure';
-                    response.reason = `Failed to parse response: ${errorMessage}`;
-                }
+                "duration": duration // Seconds until the device reverts the change (0 = stays)
             }
-            this.log.debug(`Invoking callback for set status on ${deviceId} with result: ${response.result}`);
-            cb(response);
         });
+
+        const response = await this._authorizedPost<DeviceStatusResponse>("/device/setstatus", commandObj, "set status", deviceId,
+            this._getCloudCommandTimeout(deviceId));
+        this.log.info(`Cloud set status for ${deviceId} (${targetState}) successful.`);
+        return response;
     }
 
-    async setFanSpeed(deviceId: string, deviceIp: string, speedPercent: number, cb) {
+    /**
+     * Speed steps, percent mapping and encoding of a device's fan regulator.
+     */
+    getFanProfile(deviceId: string): FanProfile {
+        return this.config.getFanProfile(deviceId);
+    }
+
+    /**
+     * Sets a fan regulator's speed from a HomeKit percentage.
+     */
+    async setFanSpeed(deviceId: string, configuredIp: string | null, speedPercent: number): Promise<FanSpeedResponse> {
+        const deviceIp = this._getDeviceIp(deviceId, configuredIp);
         this.log.info(`Request Fan Speed: ${deviceId} (IP: ${deviceIp}) - Speed %: ${speedPercent}`);
 
+        return this._routeRequest(deviceId, deviceIp, "set fan speed",
+            (retries) => this.setFanSpeedLocally(deviceId, SmarteefiHelper.percentToValue(speedPercent, this.getFanProfile(deviceId)), deviceIp, retries),
+            () => this._setFanSpeedCloud(deviceId, speedPercent));
+    }
+
+    async setFanSpeedLocally(deviceId: string, speedValue: number, ip: string, retries?: number): Promise<FanSpeedResponse> {
+        this.log.info(`Using LOCAL control to set fan speed for ${deviceId} (IP: ${ip}) to value ${speedValue}.`);
+        try {
+            const confirm = this.config.isLocalConfirmed(deviceId);
+            const response = await SmarteefiLocalAPIHelper.Instance(this.log).setFanSpeed(deviceId, speedValue, ip, retries, this.getFanProfile(deviceId), confirm);
+            // Same shape as the setdimctl response so callers can update the speed cache from it
+            const value = response.speed ?? speedValue;
+            this.log.info(confirm
+                ? `Local fan speed for ${deviceId} confirmed by device: value=${value}`
+                : `Local fan speed for ${deviceId} sent: value=${value}`);
+            return { result: 'success', status: value > 0 ? 1 : 0, value: value };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.log.warn(`Local fan speed command for ${deviceId} failed: ${errorMessage}`);
+            throw error;
+        }
+    }
+
+    async _setFanSpeedCloud(deviceId: string, speedPercent: number): Promise<FanSpeedResponse> {
         // Handle speed 0% (OFF) - should ideally be handled by setSwitchStatus/Active characteristic
         if (speedPercent <= 0) {
             this.log.warn(`setFanSpeed called with ${speedPercent}%. This should typically be handled by turning the fan OFF via setSwitchStatus. Ignoring speed set.`);
             // Return success assuming OFF is handled elsewhere. Adjust if setdimctl *can* turn off.
-            return cb({ result: 'success', reason: 'Speed 0% ignored, handled by Active state.' });
+            return { result: 'success', reason: 'Speed 0% ignored, handled by Active state.' };
         }
 
-        // --- Local Control Handling (Placeholder) ---
-        if (this.config.local === true) {
-            // Local speed control is likely different or not supported by local helper yet
-            this.log.warn(`Local control enabled, but Fan Speed control locally is not implemented in this helper for ${deviceId}.`);
-            // Return success for now, assuming no local speed control attempt
-            return cb({ result: 'success', reason: 'Local speed control not implemented.' });
-        }
 
-        // --- Cloud Control Handling ---
-        if (!this.token) {
-             this.log.error(`Cannot set fan speed for ${deviceId} via cloud: Not logged in.`);
-             return cb({ result: 'failure', reason: 'Not logged in' });
-        }
+        // Map HomeKit percentage (1-100) to the regulator's speed step
+        const profile = this.getFanProfile(deviceId);
+        const apiValue = SmarteefiHelper.percentToValue(speedPercent, profile);
+        this.log.info(`Mapping speed ${speedPercent}% to API value: ${apiValue} (of ${profile.steps})`);
+        this.log.info(`Using CLOUD control to set fan speed for ${deviceId}. Sending API Value: ${apiValue}.`);
 
-        // Map HomeKit percentage (1-100) to API value (1-4)
-        let apiValue: number;
-        if (speedPercent <= 25) {
-           apiValue = 1;
-        } else if (speedPercent <= 50) {
-           apiValue = 2;
-        } else if (speedPercent <= 75) {
-           apiValue = 3;
-        } else { // 76-100
-           apiValue = 4;
+        const response = await this._setDimControlCloud(deviceId, profile.applianceMap, apiValue, "set fan speed");
+        this.log.info(`Cloud set fan speed for ${deviceId} to value ${apiValue} successful (API confirmed: status=${response.status}, value=${response.value})`);
+        return response;
+    }
+
+    /**
+     * Hardware details the cloud reported for a device, or undefined before it was fetched.
+     */
+    getHardwareInfo(deviceId: string): HardwareInfo | undefined {
+        return this.hardware.get(deviceId);
+    }
+
+    /**
+     * Number of brightness steps of a device's dimmer gangs.
+     */
+    getDimmerLevels(deviceId: string): number {
+        return this.config.getDimmerLevels(deviceId);
+    }
+
+    /**
+     * Sets a dimmer gang's brightness from a HomeKit percentage (1-100).
+     */
+    async setBrightness(deviceId: string, configuredIp: string | null, sequence: number, brightnessPercent: number): Promise<FanSpeedResponse> {
+        const deviceIp = this._getDeviceIp(deviceId, configuredIp);
+        const level = SmarteefiHelper.percentToLevel(brightnessPercent, this.getDimmerLevels(deviceId));
+        const applianceMap = SmarteefiHelper.getSwitchMap(sequence);
+        this.log.info(`Request Brightness: ${deviceId} (IP: ${deviceIp}) - Gang ${sequence}, Brightness %: ${brightnessPercent} -> level ${level}`);
+
+        return this._routeRequest(deviceId, deviceIp, "set brightness",
+            (retries) => this.setBrightnessLocally(deviceId, applianceMap, level, deviceIp, retries),
+            () => this._setDimControlCloud(deviceId, applianceMap, level, "set brightness"));
+    }
+
+    async setBrightnessLocally(deviceId: string, applianceMap: number, level: number, ip: string, retries?: number): Promise<FanSpeedResponse> {
+        this.log.info(`Using LOCAL control to set brightness for ${deviceId} (IP: ${ip}, map ${applianceMap}) to level ${level}.`);
+        try {
+            const response = await SmarteefiLocalAPIHelper.Instance(this.log).setDimLevel(deviceId, applianceMap, level, ip, retries, this.config.isLocalConfirmed(deviceId));
+            const value = response.speed ?? level;
+            return { result: 'success', status: value > 0 ? 1 : 0, value: value };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.log.warn(`Local brightness command for ${deviceId} failed: ${errorMessage}`);
+            throw error;
         }
-        this.log.info(`Mapping speed ${speedPercent}% to API value: ${apiValue}`);
+    }
 
-        // Construct the API payload for setdimctl
-        const APPLIANCE_MAP_FAN_SPEED = 112; // Based on user provided payload
-        const CTL_FLAG_FAN_SPEED = 0;       // Based on user provided payload
+    /**
+     * Sends /device/setdimctl, shared by fan regulators and dimmers.
+     */
+    async _setDimControlCloud(deviceId: string, applianceMap: number, value: number, action: string): Promise<FanSpeedResponse> {
+        const CTL_FLAG_DIM = 0; // Based on user provided payload
 
-        const commandObj = {
+        const commandObj = (token: string) => ({
             "DimControl": {
-                "access_token": this.token,
+                "access_token": token,
                 "serial": deviceId,
-                "appliancemap": APPLIANCE_MAP_FAN_SPEED,
-                "ctlflag": CTL_FLAG_FAN_SPEED,
+                "appliancemap": applianceMap,
+                "ctlflag": CTL_FLAG_DIM,
                 "duration": 0,      // Assumed fixed
-                "value": apiValue   // The calculated API speed value (1-4)
+                "value": value      // Speed step or brightness level
             }
-        };
-        const url = `${this.apiHost}/device/setdimctl`;
-        this.log.info(`Using CLOUD control to set fan speed for ${deviceId}. Sending API Value: ${apiValue}.`);
-        this.log.debug(`Sending POST request to ${url} for ${deviceId}. Payload: ${JSON.stringify(commandObj)}`);
+        });
 
-        // --- API Call and Response Handling ---
-        await this._apiCall(url, "POST", commandObj, (_body, err) => {
-            let response: { result: string; reason?: string; status?: number; value?: number } = { 
-                result: "failure", 
-                reason: "Unknown API error" 
-            };
-            
-            if (err) {
-                const errorMessage = err instanceof Error ? err.message : String(err);
-                this.log.error(`API call failed for set fan speed on ${deviceId}: ${errorMessage}`);
-                response.reason = `API call error: ${errorMessage}`;
-            } else {
-                this.log.debug(`Received set fan speed response for ${deviceId}.`);
-                try {
-                    if (!_body) {
-                        this.log.error(`Empty response body on set fan speed for ${deviceId}.`);
-                        throw new Error("API response body is empty");
-                    }
-                    const parsedBody = JSON.parse(_body);
-                    this.log.debug(`Parsed set fan speed response: ${JSON.stringify(parsedBody)}`);
-                    
-                    // Extract important fields from API response
-                    // The API should return: { result: 'success', status: 1, value: 2, ... }
-                    response.result = parsedBody.result || 'failure';
-                    
-                    // Parse status (1 = ON, 0 = OFF) and value (1-4 speed)
-                    if (parsedBody.status !== undefined) {
-                        response.status = typeof parsedBody.status === 'number' ? parsedBody.status : 
-                                         (parsedBody.status === 1 || parsedBody.status === '1') ? 1 : 0;
-                    }
-                    
-                    if (parsedBody.value !== undefined) {
-                        response.value = typeof parsedBody.value === 'number' ? parsedBody.value : parseInt(parsedBody.value, 10);
-                    }
-                    
-                    if (parsedBody.reason) {
-                        response.reason = parsedBody.reason;
-                    }
-                    
-                    if (response.result !== 'success') {
-                         this.log.warn(`Cloud set fan speed for ${deviceId} reported non-success: ${response.result}`);
-                    } else {
-                         this.log.info(`Cloud set fan speed for ${deviceId} to value ${apiValue} successful (API confirmed: status=${response.status}, value=${response.value})`);
-                    }
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : String(error);
-                    this.log.error(`Failed to parse set fan speed response for ${deviceId}: ${errorMessage}. Body: ${_body}`);
-                    response.result = 'failure';
-                    response.reason = `Failed to parse response: ${errorMessage}`;
-                }
+        const parsedBody = await this._authorizedPost<FanSpeedResponse>("/device/setdimctl", commandObj, action, deviceId,
+            this._getCloudCommandTimeout(deviceId));
+
+        // Extract important fields from API response
+        // The API should return: { result: 'success', status: 1, value: 2, ... }
+        const response: FanSpeedResponse = { result: parsedBody.result, reason: parsedBody.reason };
+
+        // Parse status (1 = ON, 0 = OFF) and value (speed step or brightness level)
+        if (parsedBody.status !== undefined) {
+            response.status = typeof parsedBody.status === 'number' ? parsedBody.status :
+                             (String(parsedBody.status) === '1') ? 1 : 0;
+        }
+
+        if (parsedBody.value !== undefined) {
+            response.value = typeof parsedBody.value === 'number' ? parsedBody.value : parseInt(String(parsedBody.value), 10);
+        }
+        return response;
+    }
+
+    /**
+     * The control mode in use, as parsed from the config (the legacy `local` flag and invalid values resolved).
+     */
+    getControlMode(): ControlMode {
+        return this.config.controlMode;
+    }
+
+    /**
+     * Device settings to expose as switches for a device.
+     */
+    getExposedSettings(deviceId: string): DeviceSetting[] {
+        return this.config.getExposedSettings(deviceId);
+    }
+
+    /**
+     * Reads a device's settings (child lock, indicator LED). Always over the cloud: the local protocol has no settings commands.
+     * Settings the device doesn't support are missing from the result; rejects with SmarteefiUnsupportedError when
+     * the cloud has no settings endpoint at all (HTTP 404).
+     */
+    async getDeviceSettings(deviceId: string): Promise<DeviceSettings> {
+        const commandObj = (token: string) => ({
+            "DeviceSettings": {
+                "access_token": token,
+                "serial": deviceId
             }
-            this.log.debug(`Invoking callback for set fan speed on ${deviceId} with result: ${response.result}`);
-            cb(response);
         });
+        try {
+            const response = await this._authorizedPost<DeviceSettingsResponse>("/device/getsettings", commandObj, "get settings", deviceId);
+            return this._parseDeviceSettings(response);
+        } catch (error) {
+            if (error instanceof SmarteefiHttpError && error.statusCode === 404) {
+                throw new SmarteefiUnsupportedError("The cloud has no settings endpoint (HTTP 404)", deviceId);
+            }
+            throw error;
+        }
     }
 
-    async getSwitchStatus(deviceId: string, switchmap: number, cb) {
-        // Log the start of the request at INFO level, concisely
-        //this.log.info(`CLOUD get: ${deviceId} (Map ${switchmap})`);
-
-        // Log token presence only in debug mode
-        //this.log.debug(`Current Token: ${this.token ? 'Exists' : 'MISSING'}`);
+    /**
+     * Turns a device setting on or off (cloud only, like getDeviceSettings) and resolves with the settings the cloud confirmed.
+     */
+    async setDeviceSetting(deviceId: string, setting: DeviceSetting, enabled: boolean): Promise<DeviceSettings> {
+        this.log.info(`Request Setting: ${deviceId} - ${setting}: ${enabled ? 'ON' : 'OFF'}`);
+        const commandObj = (token: string) => ({
+            "DeviceSettings": {
+                "access_token": token,
+                "serial": deviceId,
+                [SETTING_FIELDS[setting]]: enabled ? 1 : 0
+            }
+        });
+        const response = await this._authorizedPost<DeviceSettingsResponse>("/device/setsettings", commandObj, `set ${setting}`, deviceId,
+            this._getCloudCommandTimeout(deviceId));
+        // A bare acknowledgement means the requested value was applied
+        return { [setting]: enabled, ...this._parseDeviceSettings(response) };
+    }
 
-        // Keep warning for local mode fallback
-        if (this.config.local === true) {
-            this.log.warn(`Local Get Status not implemented, falling back to cloud for ${deviceId}.`);
-            // If local get was implemented, it would go here.
+    _parseDeviceSettings(response: DeviceSettingsResponse): DeviceSettings {
+        const settings: DeviceSettings = {};
+        for (const [setting, field] of Object.entries(SETTING_FIELDS) as [DeviceSetting, keyof DeviceSettingsResponse][]) {
+            const value = response[field];
+            if (value !== undefined && value !== null) {
+                settings[setting] = String(value) === "1";
+            }
         }
+        return settings;
+    }
 
-        // Keep error log for missing token
-        if (!this.token) {
-             this.log.error(`Cannot get status for ${deviceId} via cloud: Not logged in.`);
-             // Return a failure structure expected by the caller
-             return cb({ result: 'failure', reason: 'Not logged in', switchmap: 0, statusmap: 0 });
+    /**
+     * Reads a device's switchmap/statusmap. Rejects with SmarteefiDeviceOfflineError when the cloud
+     * reports the device offline. Devices that don't answer local commands are always read from the cloud.
+     */
+    async getSwitchStatus(deviceId: string, switchmap: number): Promise<DeviceStatusResponse> {
+        if (!this.config.isLocalConfirmed(deviceId)) {
+            return this._getSwitchStatusCloud(deviceId, switchmap);
         }
+        const ip = this._getDeviceIp(deviceId);
+        return this._routeRequest(deviceId, ip, "get status",
+            (retries) => this.getSwitchStatusLocally(deviceId, ip, retries),
+            () => this._getSwitchStatusCloud(deviceId, switchmap));
+    }
+
+    async _getSwitchStatusCloud(deviceId: string, switchmap: number): Promise<DeviceStatusResponse> {
 
         // Log routine steps only in debug mode
         this.log.debug(`Preparing cloud request for ${deviceId}.`);
-        const commandObj = {
+        const commandObj = (token: string) => ({
             "DeviceStatus": {
-                "access_token": this.token,
+                "access_token": token,
                 "serial": deviceId,
                 "switchmap": switchmap,
                 "statusmap": 0,
                 "duration": 0
             }
-        };
-        const url = `${this.apiHost}/device/getstatus`;
-        this.log.debug(`Sending POST to ${url}`);
-
-        // Make the API call
-        await this._apiCall(url, "POST", commandObj, (_body, err) => {
-            // Define a default failure response
-            let response = { result: "failure", switchmap: 0, statusmap: 0, reason: "Unknown API error", major_ecode: 0, minor_ecode: 0 };
-
-            if (err) {
-                // Keep error logging for API call failures
-                const errorMessage = err instanceof Error ? err.message : String(err);
-                this.log.error(`API call failed for get status on ${deviceId}: ${errorMessage}`);
-                response.reason = `API call error: ${errorMessage}`;
-            } else {
-                // Log receipt of response only in debug mode
-                this.log.debug(`Received get status response for ${deviceId}.`);
-                try {
-                     if (!_body) {
-                        // Log error for empty body
-                        this.log.error(`Empty response body received for get status on ${deviceId}.`);
-                        throw new Error("API response body is empty");
-                    }
-                    const parsedBody = JSON.parse(_body);
-                    // Log raw parsed body only in debug mode
-                    this.log.debug(`Parsed get status response for ${deviceId}: ${JSON.stringify(parsedBody)}`);
-                    // Merge API response into our default structure
-                    response = { ...response, ...parsedBody };
-
-                    // Log success at INFO level, warnings for API errors/unexpected results
-                     if (parsedBody.result === 'success') {
-                          //this.log.info(`Cloud get status for ${deviceId} OK. Statusmap: ${parsedBody.statusmap}`);
-                     } else if (parsedBody.result === 'error') {
-                          this.log.warn(`Cloud get status for ${deviceId} API error: Code ${parsedBody.major_ecode || 'N/A'}/${parsedBody.minor_ecode || 'N/A'}`);
-                     } else {
-                         this.log.warn(`Cloud get status for ${deviceId} unexpected result: ${parsedBody.result}`);
-                     }
-                } catch (error) {
-                    // Keep error logging for parsing failures
-                    const errorMessage = error instanceof Error ? error.message : String(error);
-                    this.log.error(`Failed to parse get status response for ${deviceId}: ${errorMessage}. Body: ${_body}`);
-                    response.result = 'failure'; // Ensure result reflects parsing failure
-                    response.reason = `Failed to parse response: ${errorMessage}`;
-                }
-            }
-             // Log callback invocation only in debug mode
-             this.log.debug(`Invoking callback for get status on ${deviceId} with result: ${response.result}`);
-            cb(response); // Pass the final response object to the callback
         });
+
+        const response = await this._authorizedPost<DeviceStatusResponse>("/device/getstatus", commandObj, "get status", deviceId);
+        return {
+            ...response,
+            switchmap: typeof response.switchmap === 'number' ? response.switchmap : 0,
+            statusmap: typeof response.statusmap === 'number' ? response.statusmap : 0,
+        };
     }
 
-    // ... (_loginApiCall and _apiCall methods remain the same) ...
-    _loginApiCall(endpoint: string, body: object, cb) {
-        const _this = this;
-        const requestBody = { "LoginForm": { "email": _this.userid, "password": _this.password, "app": "smarteefi" } };
-        //this.log.info(`Executing internal login API call to endpoint: ${endpoint}`);
+    async _loginApiCall(endpoint: string): Promise<string> {
+        const requestBody = { "LoginForm": { "email": this.userid, "password": this.password, "app": "smarteefi" } };
         // Avoid logging requestBody with password
 
-        this._apiCall(endpoint, 'POST', requestBody, function (responseBody, error) {
-            let jBody = { result: "", access_token: "" };
+        const responseBody = await this._apiCall(endpoint, 'POST', requestBody);
+        if (!responseBody) {
+             this.log.error("Login response body is empty.");
+             throw new SmarteefiAuthError("Login response body is empty");
+        }
 
-            if (error) {
-                 const errorMessage = error instanceof Error ? error.message : String(error);
-                 _this.log.error(`Login API call failed: ${errorMessage}`);
-                 cb(); // Indicate failure (no token)
-                 return;
-            }
+        let jBody: LoginResponse;
+        try {
+            jBody = JSON.parse(responseBody);
+            this.log.info(`Parsed login response. Result: ${jBody.result}`);
+        } catch (parseError) {
+            const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
+            this.log.error(`Failed to parse login response: ${errorMessage}. Body: ${responseBody}`);
+            throw new SmarteefiApiError(`Failed to parse login response: ${errorMessage}`);
+        }
+
+        if (jBody.result === 'success' && jBody.access_token) {
+             this.log.info("Login successful via internal call.");
+            this.token = jBody.access_token; // Store the token
+             this.log.debug(`Acquired Token successfully (length: ${jBody.access_token.length})`); // Use debug for token length potentially
+            return this.token;
+        }
+        this.log.warn(`Login attempt failed. API Result: ${jBody.result}. Check credentials or API status.`);
+        throw new SmarteefiAuthError(`Login rejected: ${jBody.reason || jBody.result}`);
+    }
 
-            if (!responseBody) {
-                 _this.log.error("Login response body is empty.");
-                 cb(); // Indicate failure
-                 return;
+    /**
+     * POSTs a command that carries the access token. Logs in first when there is no token, and when
+     * the cloud rejects the token, logs in again once and replays the request with the new one.
+     * `timeout` overrides `requestTimeout` for the request itself (not the login).
+     */
+    async _authorizedPost<T extends ApiResult>(path: string, buildBody: (token: string) => object, action: string, deviceId?: string,
+        timeout?: number): Promise<T> {
+        if (!this.isLoggedIn()) {
+            this.log.info(`Not logged in, logging in before ${action}${deviceId ? ` on ${deviceId}` : ''}.`);
+            await this._loginOnce();
+        }
+        const token = this.token;
+        try {
+            return await this._postJson<T>(path, buildBody(token), action, deviceId, timeout);
+        } catch (error) {
+            if (!(error instanceof SmarteefiAuthError)) {
+                throw error;
+            }
+            // Another caller may already have replaced (or be replacing) the token while this request was in flight
+            if (this.token === token) {
+                this.log.warn(`Access token rejected during ${action}; logging in again.`);
+                this.token = "";
             }
+            if (!this.isLoggedIn()) {
+                await this._loginOnce();
+            }
+            this.log.info(`Replaying ${action}${deviceId ? ` on ${deviceId}` : ''} with the new token.`);
+            return this._postJson<T>(path, buildBody(this.token), action, deviceId, timeout);
+        }
+    }
 
-            try {
-                jBody = JSON.parse(responseBody);
-                _this.log.info(`Parsed login response. Result: ${jBody.result}`);
-            } catch (parseError) {
-                const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
-                _this.log.error(`Failed to parse login response: ${errorMessage}. Body: ${responseBody}`);
-                cb(); // Indicate failure
-                return;
+    /**
+     * POSTs a JSON command to the cloud and resolves with the parsed body when result === 'success'.
+     * Any other result is turned into a SmarteefiApiError (SmarteefiDeviceOfflineError for major_ecode 6),
+     * and HTTP 401/403 or a token-related reason into a SmarteefiAuthError.
+     */
+    async _postJson<T extends ApiResult>(path: string, body: object, action: string, deviceId?: string, timeout?: number): Promise<T> {
+        const url = `${this.apiHost}${path}`;
+        const target = deviceId ? ` on ${deviceId}` : '';
+        this.log.debug(`Sending POST request to ${url}${deviceId ? ` for ${deviceId}` : ''}.`);
+
+        let responseBody: string;
+        try {
+            responseBody = await this._apiCall(url, "POST", body, timeout);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.log.error(`API call failed for ${action}${target}: ${errorMessage}`);
+            if (error instanceof SmarteefiHttpError && (error.statusCode === 401 || error.statusCode === 403)) {
+                throw new SmarteefiAuthError(errorMessage, deviceId);
             }
+            throw error;
+        }
 
-            if (jBody.result === 'success' && jBody.access_token) {
-                 _this.log.info("Login successful via internal call.");
-                _this.token = jBody.access_token; // Store the token
-                 _this.log.debug(`Acquired Token successfully (length: ${jBody.access_token.length})`); // Use debug for token length potentially
-                cb(_this.token); // Pass token to original login callback
-            } else {
-                _this.log.warn(`Login attempt failed. API Result: ${jBody.result}. Check credentials or API status.`);
-                cb(); // Indicate failure
+        this.log.debug(`Received ${action} response${target}.`);
+        if (!responseBody) {
+            this.log.error(`Empty response body on ${action}${target}.`);
+            throw new SmarteefiApiError("API response body is empty", deviceId);
+        }
+
+        let parsedBody: T;
+        try {
+            parsedBody = JSON.parse(responseBody);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.log.error(`Failed to parse ${action} response${target}: ${errorMessage}. Body: ${responseBody}`);
+            throw new SmarteefiApiError(`Failed to parse response: ${errorMessage}`, deviceId);
+        }
+        this.log.debug(`Parsed ${action} response${target}: ${JSON.stringify(parsedBody)}`);
+
+        if (parsedBody?.result !== 'success') {
+            const majorCode = Number(parsedBody?.major_ecode) || 0;
+            const minorCode = Number(parsedBody?.minor_ecode) || 0;
+            this.log.warn(`Cloud ${action}${target} reported ${parsedBody?.result}: Code ${majorCode || 'N/A'}/${minorCode || 'N/A'}${parsedBody?.reason ? ` (${parsedBody.reason})` : ''}`);
+            const message = parsedBody?.reason || `API result '${parsedBody?.result}'`;
+            if (majorCode === DEVICE_OFFLINE_ECODE) {
+                throw new SmarteefiDeviceOfflineError(message, deviceId, majorCode, minorCode);
             }
-        });
+            if (parsedBody?.reason && AUTH_FAILURE_PATTERN.test(parsedBody.reason)) {
+                throw new SmarteefiAuthError(message, deviceId);
+            }
+            throw new SmarteefiApiError(message, deviceId, majorCode, minorCode);
+        }
+        return parsedBody;
     }
 
-    async _apiCall(endpoint: string, method: string, body: object, cb) {
-        //this.log.info(`Making internal API call: ${method} ${endpoint}`);
+    /**
+     * Performs the HTTP request and resolves with the raw response body.
+     * Rejects with SmarteefiTimeoutError, SmarteefiCancelledError, SmarteefiHttpError (non-2xx) or SmarteefiError.
+     */
+    async _apiCall(endpoint: string, method: string, body: object, timeout = this.config.requestTimeout): Promise<string> {
         try {
              const receivedBodyLog = JSON.stringify(body, (key, value) => (key === 'access_token' || key === 'password') ? '********' : value);
             this.log.debug(`_apiCall received body (raw, redacted): ${receivedBodyLog}`);
@@ -629,81 +879,77 @@ export class SmarteefiAPIHelper {
             this.log.error(`_apiCall failed to stringify received body for logging: ${errorMsg}`);
         }
 
-        const _this = this;
-
-        const headers = {
-            'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/15.1 Safari/605.1.15',
-            'accept-language': 'en-IN,en-GB;q=0.9,en;q=0.8',
-            // 'Accept': 'application/json' // Uncomment if API requires/prefers it
-        };
+        if (this.abortController.signal.aborted) {
+            throw new SmarteefiCancelledError("API helper has been shut down");
+        }
 
-        const options: request.Options = {
-            method: method,
-            url: endpoint,
-            forever: true,
-            headers: headers,
-            timeout: 15000, // 15 second timeout
+        const headers: Record<string, string> = {
+            'User-Agent': PLUGIN_NAME,
+            'Accept': 'application/json',
         };
+        let requestBody: string | undefined;
 
         // Only add Content-Type and body if method is not GET and body is provided and not empty
         if (method !== "GET" && body && Object.keys(body).length > 0) {
-             options.headers['Content-Type'] = 'application/json';
+             headers['Content-Type'] = 'application/json';
              try {
-                const bodyToLogBeforeStringify = JSON.stringify(body, (key, value) => (key === 'access_token' || key === 'password') ? '********' : value);
-                this.log.debug(`_apiCall body before stringify for options (redacted): ${bodyToLogBeforeStringify}`);
-
-                options.body = JSON.stringify(body);
-
-                this.log.debug(`_apiCall options.body after stringify: ${options.body}`); // Log final string being sent
-
+                requestBody = JSON.stringify(body);
              } catch (stringifyError) {
                   const errorMessage = stringifyError instanceof Error ? stringifyError.message : String(stringifyError);
                   this.log.error(`Failed to stringify request body for ${endpoint}: ${errorMessage}`);
-                  // Call callback immediately with error
-                  return cb(null, stringifyError instanceof Error ? stringifyError : new Error(errorMessage));
+                  throw new SmarteefiError(`Failed to stringify request body: ${errorMessage}`);
              }
         } else if (method !== "GET") {
              this.log.warn(`API call ${method} ${endpoint} called without a valid body or with an empty body object.`);
-             // Depending on API requirements, you might want to return an error here if a body is mandatory.
-             // Example: return cb(null, new Error(`API call ${method} ${endpoint} requires a non-empty body.`));
         }
 
+        let response;
+        try {
+            response = await this.transport.send({
+                method: method,
+                url: endpoint,
+                headers: headers,
+                body: requestBody,
+                timeout: timeout,
+                signal: this.abortController.signal,
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.log.error(`API call to ${endpoint} failed: ${errorMessage}`);
+            throw error instanceof SmarteefiError ? error : new SmarteefiError(`Request error: ${errorMessage}`);
+        }
 
-        request(options, function (error, response, responseBody) {
-            if (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                if (error.code === 'ETIMEDOUT' || error.code === 'ESOCKETTIMEDOUT') {
-                     _this.log.error(`API call to ${endpoint} timed out: ${errorMessage}`);
-                } else {
-                     _this.log.error(`API call to ${endpoint} failed with request error: ${errorMessage}`);
-                }
-                // Pass null for body, and the error object
-                cb(null, error instanceof Error ? error : new Error(errorMessage));
-                return;
-            }
+        this.log.info(`API call to ${endpoint} completed. Status Code: ${response.statusCode}`);
 
-            _this.log.info(`API call to ${endpoint} completed. Status Code: ${response?.statusCode}`);
+        // Check for non-2xx status codes
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+             this.log.error(`API call to ${endpoint} returned HTTP error status: ${response.statusCode}. Body: ${response.body}`);
+             throw new SmarteefiHttpError(`HTTP Error ${response.statusCode}`, response.statusCode, response.body);
+        }
 
-            // Check for non-2xx status codes
-            if (response && (response.statusCode < 200 || response.statusCode >= 300)) {
-                 _this.log.error(`API call to ${endpoint} returned HTTP error status: ${response.statusCode}. Body: ${responseBody}`);
-                 const httpError = new Error(`HTTP Error ${response.statusCode}`);
-                 // Pass responseBody for potential parsing upstream, and the HTTP error
-                 cb(responseBody, httpError);
-                 return;
-            }
+        // Success case (2xx status code)
+        this.log.debug(`API call to ${endpoint} successful (Status Code: ${response.statusCode}).`);
+        return response.body;
+    }
 
-            // Success case (2xx status code)
-            _this.log.debug(`API call to ${endpoint} successful (Status Code: ${response?.statusCode}). Passing body to callback.`); // Use debug for success body log
-            // Pass responseBody and null error for success
-            cb(responseBody, null);
-
-        })
-        .on('error', (err) => { // Catch stream-level errors (less common with request)
-            const errorMessage = err instanceof Error ? err.message : String(err);
-            _this.log.error(`Stream error during API call to ${endpoint}: ${errorMessage}`);
-            // The main callback usually handles reporting, but log it anyway.
-            // Avoid calling cb here as it might already have been called or will be.
+    /**
+     * Waits `ms`, rejecting early with SmarteefiCancelledError if the helper is shut down.
+     */
+    _delay(ms: number): Promise<void> {
+        const signal = this.abortController.signal;
+        return new Promise((resolve, reject) => {
+            if (signal.aborted) {
+                return reject(new SmarteefiCancelledError("API helper has been shut down"));
+            }
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new SmarteefiCancelledError("API helper has been shut down"));
+            };
+            const timer = setTimeout(() => {
+                signal.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal.addEventListener('abort', onAbort, { once: true });
         });
     }
-} // End of class SmarteefiAPIHelper
\ No newline at end of file
+} // End of class SmarteefiAPIHelper
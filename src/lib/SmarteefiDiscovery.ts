@@ -1,37 +1,143 @@
-// import EventEmitter from 'events';
-// import { API, Logger } from 'homebridge';
-// import { Config, Device } from './Config';
-// import { SmarteefiAPIHelper } from './SmarteefiAPIHelper';
-
-// export class SmarteefiDiscovery extends EventEmitter {
-
-//     private config: Config = new Config();
-//     private api: API;
-//     public readonly log: Logger;
-
-//     constructor(log, api) {
-//         super();
-//         this.log = log;
-//         this.api = api;
-//     }
-
-//     start(api, props, index, cb) {
-//         // this.log.info(`Trying to login...`);
-//         this.config = new Config(props.userid, props.password, props.devices, props.ip);
-//         // this.log.debug(`With Config ::::::: ${JSON.stringify(props.devices)}`)
-//         const helper = SmarteefiAPIHelper.Instance(this.config, this.log);
-//         helper.login((b) => {
-//             if (!b) {
-//                 cb([], -1);
-//             } else {
-//                 this.log.info("Fetching configured switches...");
-//                 helper.fetchDevices(this.config.devices, this.config.ip, this.config.isFan,(devs: Device[]) => {
-//                     if (!devs) {
-//                         throw new this.api.hap.HapStatusError(this.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
-//                     }
-//                     cb(devs, 0);
-//                 });
-//             }
-//         })
-//     }
-// }
\ No newline at end of file
+import EventEmitter from 'events';
+import os from 'os';
+import udp, { Socket } from 'dgram';
+import { Logger } from 'homebridge';
+import { SmarteefiLocalAPIHelper } from './SmarteefiLocalAPIHelper';
+import { LOCAL_UDP_PORT } from '../constants';
+
+/**
+ * Finds Smarteefi devices on the local subnet by broadcasting a probe on the Smarteefi UDP port
+ * and collecting the replies. Keeps a serial -> IP map that survives between scans.
+ * Experimental: the probe and reply format are not documented by Smarteefi, and devices that don't answer
+ * simply keep their configured IP.
+ *
+ * Events:
+ *  - 'deviceFound'    (serial, ip)         first time a serial is seen
+ *  - 'addressChanged' (serial, oldIp, ip)  a known serial answered from a new IP (e.g. DHCP renewal)
+ */
+export class SmarteefiDiscovery extends EventEmitter {
+
+    private addresses = new Map<string, string>();
+    private socket: Socket | null = null;
+    private scanTimer: NodeJS.Timeout | null = null;
+
+    constructor(public readonly log: Logger) {
+        super();
+    }
+
+    /**
+     * Broadcasts a probe and resolves with every serial -> IP mapping known after `timeout` ms.
+     * A scan already in progress is not restarted; the current map is returned instead.
+     */
+    discover(timeout: number): Promise<Map<string, string>> {
+        if (this.socket) {
+            this.log.debug('LAN discovery already running, returning known addresses.');
+            return Promise.resolve(new Map(this.addresses));
+        }
+
+        return new Promise((resolve) => {
+            const localHelper = SmarteefiLocalAPIHelper.Instance(this.log);
+            const socket = udp.createSocket({ type: 'udp4', reuseAddr: true });
+            this.socket = socket;
+            let found = 0;
+
+            const finish = () => {
+                if (this.scanTimer) {
+                    clearTimeout(this.scanTimer);
+                    this.scanTimer = null;
+                }
+                if (this.socket === socket) {
+                    this.socket = null;
+                    try { socket.close(); } catch { /* already closed */ }
+                }
+                this.log.info(`LAN discovery finished: ${found} device(s) answered, ${this.addresses.size} known.`);
+                resolve(new Map(this.addresses));
+            };
+
+            socket.on('message', (msg, info) => {
+                const serial = localHelper._parseSerial(msg);
+                if (!serial) {
+                    this.log.debug(`Ignoring non-Smarteefi reply from ${info.address}:${info.port}`);
+                    return;
+                }
+                found++;
+                this._recordAddress(serial, info.address);
+            });
+            socket.on('error', (error) => {
+                this.log.warn(`LAN discovery socket error: ${error.message}`);
+                finish();
+            });
+
+            socket.bind(() => {
+                try {
+                    socket.setBroadcast(true);
+                } catch (error) {
+                    this.log.warn(`LAN discovery could not enable broadcast: ${error}`);
+                    return finish();
+                }
+                const probe = localHelper._getDiscoveryProbe();
+                for (const address of this._getBroadcastAddresses()) {
+                    this.log.debug(`Sending LAN discovery probe to ${address}:${LOCAL_UDP_PORT}`);
+                    socket.send(probe, LOCAL_UDP_PORT, address, (error) => {
+                        if (error) {
+                            this.log.debug(`Failed to send discovery probe to ${address}: ${error.message}`);
+                        }
+                    });
+                }
+                this.scanTimer = setTimeout(finish, timeout);
+            });
+        });
+    }
+
+    /**
+     * Last IP a device answered from, if it has been seen on the LAN.
+     */
+    getAddress(serial: string): string | undefined {
+        return this.addresses.get(serial);
+    }
+
+    stop() {
+        if (this.scanTimer) {
+            clearTimeout(this.scanTimer);
+            this.scanTimer = null;
+        }
+        if (this.socket) {
+            try { this.socket.close(); } catch { /* already closed */ }
+            this.socket = null;
+        }
+    }
+
+    private _recordAddress(serial: string, ip: string) {
+        const previous = this.addresses.get(serial);
+        if (previous === ip) {
+            return;
+        }
+        this.addresses.set(serial, ip);
+        if (previous) {
+            this.log.info(`Device ${serial} moved from ${previous} to ${ip}.`);
+            this.emit('addressChanged', serial, previous, ip);
+        } else {
+            this.log.info(`Found device ${serial} on the LAN at ${ip}.`);
+            this.emit('deviceFound', serial, ip);
+        }
+    }
+
+    /**
+     * Directed broadcast address of every external IPv4 interface, plus the limited broadcast address.
+     */
+    private _getBroadcastAddresses(): string[] {
+        const addresses = new Set<string>(['255.255.255.255']);
+        const interfaces = os.networkInterfaces();
+        for (const name of Object.keys(interfaces)) {
+            for (const iface of interfaces[name] || []) {
+                if (iface.family !== 'IPv4' || iface.internal) {
+                    continue;
+                }
+                const ip = iface.address.split('.').map(Number);
+                const mask = iface.netmask.split('.').map(Number);
+                addresses.add(ip.map((octet, i) => (octet | (~mask[i] & 0xff))).join('.'));
+            }
+        }
+        return Array.from(addresses);
+    }
+}
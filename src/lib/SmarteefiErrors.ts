@@ -0,0 +1,66 @@
+import { getReason } from "./SmarteefiHelper";
+
+/**
+ * Base class for every failure raised by the Smarteefi API clients.
+ */
+export class SmarteefiError extends Error {
+    constructor(message: string, public readonly deviceId?: string) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Not logged in, or the cloud rejected the credentials/token.
+ */
+export class SmarteefiAuthError extends SmarteefiError { }
+
+/**
+ * The cloud answered with a non-2xx HTTP status.
+ */
+export class SmarteefiHttpError extends SmarteefiError {
+    constructor(message: string, public readonly statusCode: number, public readonly body?: string, deviceId?: string) {
+        super(message, deviceId);
+    }
+}
+
+/**
+ * The request did not complete in time (HTTP timeout or no UDP reply).
+ */
+export class SmarteefiTimeoutError extends SmarteefiError { }
+
+/**
+ * The request was aborted because the plugin is shutting down.
+ */
+export class SmarteefiCancelledError extends SmarteefiError { }
+
+/**
+ * The cloud answered, but with result !== "success" or an unparseable body.
+ */
+export class SmarteefiApiError extends SmarteefiError {
+    constructor(message: string, deviceId?: string, public readonly majorCode?: number, public readonly minorCode?: number) {
+        super(message, deviceId);
+    }
+
+    /**
+     * Human readable reason, using the known error code table where possible.
+     */
+    get reason(): string {
+        return this.majorCode !== undefined && this.majorCode !== 0 ? getReason(this.majorCode) : this.message;
+    }
+}
+
+/**
+ * The cloud reports the device as offline (major_ecode 6).
+ */
+export class SmarteefiDeviceOfflineError extends SmarteefiApiError { }
+
+/**
+ * The cloud doesn't offer a request for the device: HTTP 404, or an answer without the expected fields.
+ */
+export class SmarteefiUnsupportedError extends SmarteefiError { }
+
+/**
+ * A local UDP command failed or the device reported a different state than requested.
+ */
+export class SmarteefiLocalError extends SmarteefiError { }
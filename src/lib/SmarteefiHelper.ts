@@ -1,6 +1,6 @@
-import { Characteristic } from "homebridge";
-import { DeviceStatus } from "./Config";
-import { MAX_FAN_SPEED_UNIT, BASE_FAN_SPEED } from "../constants";
+import { Characteristic, PlatformAccessory, Service, WithUUID } from "homebridge";
+import { DeviceSetting, DeviceStatus, GangType } from "./Config";
+import { FanProfile } from "./FanProfile";
 
 const getReason = (code) => {
   switch (code) {
@@ -31,20 +31,13 @@ const getSwitchStatusMap = (_this) => {
   return _this.deviceStatus.getStatusMap(_this.accessory.context.device.id)?.statusmap || 0;
 }
 
-const getSpeedFromStatusMap = (statusmap, switchmap) => {
-  statusmap &= switchmap;
-  if (statusmap === 0 || statusmap === BASE_FAN_SPEED) {
-    return 0;
-  } else {
-    if (statusmap > BASE_FAN_SPEED)
-      statusmap -= BASE_FAN_SPEED;
-    return ((statusmap) / MAX_FAN_SPEED_UNIT) * 100;
-  }
+const getSpeedFromStatusMap = (statusmap, switchmap, profile: FanProfile = FanProfile.DEFAULT) => {
+  return profile.valueToPercent(profile.decodeStatus(statusmap & switchmap));
 }
 
 
-const getSpeedFromFloat = (value) => {
-  return (Math.floor(Number(value) / (100 / MAX_FAN_SPEED_UNIT)) + BASE_FAN_SPEED);
+const getSpeedFromFloat = (value, profile: FanProfile = FanProfile.DEFAULT) => {
+  return profile.encodeStatus(profile.percentToValue(Number(value)));
 }
 
 const setCorrectDeviceID = (id) => {
@@ -53,21 +46,100 @@ const setCorrectDeviceID = (id) => {
 }
 
 /**
- * Converts an API speed value (1-4) to a HomeKit percentage (0-100).
+ * Converts an API speed step to a HomeKit percentage (0-100) using the fan's profile.
  * Returns 0 if the input is null, undefined, or invalid.
  */
-export function valueToPercent(value: number | null | undefined): number {
-  if (value === null || value === undefined || value <= 0) {
-      return 0;
+export function valueToPercent(value: number | null | undefined, profile: FanProfile = FanProfile.DEFAULT): number {
+  return profile.valueToPercent(value);
+}
+
+/**
+ * Converts a HomeKit percentage (0-100) to an API speed step (0 = OFF) using the fan's profile.
+ * Any non-zero value rounds up to the next speed step.
+ */
+export function percentToValue(percent: number, profile: FanProfile = FanProfile.DEFAULT): number {
+  return profile.percentToValue(percent);
+}
+
+/**
+ * Service type of a gang. Accessories cached before gang types existed only carry isFan/isDimmer.
+ */
+export function getGangType(device: { type?: GangType; isFan?: boolean; isDimmer?: boolean }): GangType {
+  return device.type ?? (device.isFan ? "regulator" : (device.isDimmer ? "dimmer" : "switch"));
+}
+
+/**
+ * Service subtype of a gang inside a grouped accessory.
+ */
+export function getGangSubtype(sequence: number): string {
+  return `gang-${sequence}`;
+}
+
+/**
+ * Subtype of a gang's StatelessProgrammableSwitch service (grouped or not).
+ */
+export function getButtonSubtype(sequence: number): string {
+  return `button-${sequence}`;
+}
+
+/**
+ * Subtype of a device setting's Switch service.
+ */
+export function getSettingSubtype(setting: DeviceSetting): string {
+  return `setting-${setting}`;
+}
+
+/**
+ * A gang's service on its accessory: by subtype when the accessory is grouped, otherwise the service of that type
+ * without a subtype (subtyped ones, like device-setting switches, don't belong to the gang).
+ */
+export function findGangService(accessory: PlatformAccessory, serviceType: WithUUID<typeof Service>, sequence: number, grouped: boolean): Service | undefined {
+  if (grouped) {
+    return accessory.getServiceById(serviceType, getGangSubtype(sequence));
   }
-  switch (value) {
-      case 1: return 25;
-      case 2: return 50;
-      case 3: return 75;
-      case 4: return 100;
-      default: // If value is > 4, cap at 100, otherwise treat as invalid (0)
-          return value > 4 ? 100 : 0;
+  return accessory.services.find(service => service.UUID === serviceType.UUID && !service.subtype);
+}
+
+/**
+ * Whether an on/off gang is on, given its device's statusmap. Inverted gangs are on while their relay is off.
+ */
+export function isGangOn(statusmap: number, device: { sequence: number; inverted?: boolean }): boolean {
+  return ((statusmap & getSwitchMap(device.sequence)) !== 0) !== !!device.inverted;
+}
+
+/**
+ * The statusmap to send to switch an on/off gang on or off (just this gang's bit, or 0).
+ */
+export function gangStatusMap(targetOn: boolean, device: { sequence: number; inverted?: boolean }): number {
+  return targetOn !== !!device.inverted ? getSwitchMap(device.sequence) : 0;
+}
+
+/**
+ * Turns a reported firmware version (e.g. "v2.1.07") into HomeKit's x.y.z format, or undefined if it has no number.
+ */
+export function toFirmwareRevision(version: string | number | null | undefined): string | undefined {
+  const match = String(version ?? "").match(/\d+(\.\d+){0,2}/);
+  return match ? match[0].split(".").map(part => String(Number(part))).join(".") : undefined;
+}
+
+/**
+ * Converts a dimmer brightness level (1..levels) to a HomeKit percentage (0-100).
+ */
+export function levelToPercent(level: number | null | undefined, levels: number): number {
+  if (level === null || level === undefined || level <= 0) {
+    return 0;
+  }
+  return Math.min(100, Math.round((level * 100) / levels));
+}
+
+/**
+ * Converts a HomeKit percentage (0-100) to a dimmer brightness level (0 = OFF), rounding up.
+ */
+export function percentToLevel(percent: number, levels: number): number {
+  if (percent <= 0) {
+    return 0;
   }
+  return Math.min(levels, Math.ceil((percent * levels) / 100));
 }
 
 export {
@@ -1,5 +1,42 @@
 import { Logger } from "homebridge";
-import udp, { Socket } from 'dgram';
+import udp from 'dgram';
+import { LOCAL_UDP_PORT, LOCAL_RESPONSE_TIMEOUT, LOCAL_MAX_RETRIES } from "../constants";
+import { DeviceStatusResponse } from "./SmarteefiTypes";
+import { FanProfile } from "./FanProfile";
+import { SmarteefiLocalError, SmarteefiTimeoutError } from "./SmarteefiErrors";
+
+// Packet layout (reverse engineered from the Smarteefi app traffic):
+//   [0..23]   header (opcode in the first bytes, rest zero padded)
+//   [24..]    device serial as ASCII
+//   +12       switchmap / appliance map (1 byte; decimal digits as hex digits in switch packets, see _toDecimalByte)
+//   +16       statusmap (1 byte, switch packets, same encoding)
+//   +20       fan speed / dimmer level (1 byte, dim control packets)
+// Devices answer with a packet of the same layout carrying their current state.
+// The set packets are the ones the plugin has always sent; the status query (GET_STATUS), the reply layout
+// and the discovery probe are not documented by Smarteefi and are unverified on most models and firmware.
+// Commands are therefore sent send-and-forget unless `localConfirm` is turned on for a device.
+const HEADER_LENGTH = 24;
+const MAP_OFFSET = 12;
+const STATUSMAP_OFFSET = 16;
+const SPEED_OFFSET = 20;
+
+const OPCODES = {
+    SET_SWITCH: "cc 10 10 00",
+    GET_STATUS: "cc 10 00 00",
+    SET_DIM: "c0 12 20 00 e2 3b 0c 00", // Fan regulators and dimmers
+    DISCOVER: "cc 01 00 00",
+};
+
+const SERIAL_PATTERN = /^[A-Za-z0-9]{6,32}$/;
+
+/**
+ * State decoded from a device reply packet.
+ */
+interface LocalReply {
+    switchmap: number;
+    statusmap: number;
+    speed: number;
+}
 
 export class SmarteefiLocalAPIHelper {
 
@@ -15,81 +52,237 @@ export class SmarteefiLocalAPIHelper {
         this.log = log;
     }
 
-    setDeviceStatus(deviceId: string, switchmap: number, statusmap: number, isFan: boolean, ip: string) {
-        const deviceIdStr = this._getDeviceStrInHex(deviceId);
+    /**
+     * Sends a set command and only resolves once the device's reply shows the requested state.
+     * Rejects with SmarteefiTimeoutError when the device never answers and SmarteefiLocalError otherwise.
+     * Without `confirm` the packet is sent once and the requested state is assumed.
+     */
+    async setDeviceStatus(deviceId: string, switchmap: number, statusmap: number, isFan: boolean, ip: string, retries = LOCAL_MAX_RETRIES, profile = FanProfile.DEFAULT, confirm = true): Promise<DeviceStatusResponse> {
+        if (isFan) {
+            return this.setFanSpeed(deviceId, profile.decodeStatus(statusmap), ip, retries, profile, confirm);
+        }
 
-        if (!isFan) {
-            const switchMapStr = this._prepareSwitchMapStatus(switchmap);
-            const statusmapStr = this._prepareStatusMapStatus(statusmap);
-            this._setSwitchStatus(ip, deviceIdStr, switchMapStr, statusmapStr);
+        const message = this._setSwitchStatus(this._getDeviceStrInHex(deviceId), this._toDecimalByte(switchmap, deviceId), this._toDecimalByte(statusmap, deviceId));
+        if (!confirm) {
+            await this._sendUDPPacket(ip, deviceId, message);
+            return { result: "success", switchmap: switchmap, statusmap: statusmap };
         }
-        else {
-            const speed = this._getFanSpeed(statusmap);
-            this._setFanStatus(ip, deviceIdStr, speed);
+        const reply = await this._sendUDPCommand(ip, deviceId, message, retries);
+        if ((reply.statusmap & switchmap) !== (statusmap & switchmap)) {
+            this.log.warn(`Local command for ${deviceId} not applied: expected statusmap ${statusmap & switchmap} on map ${switchmap}, device reports ${reply.statusmap}`);
+            throw new SmarteefiLocalError("Device did not apply command", deviceId);
         }
+        return { result: "success", switchmap: reply.switchmap, statusmap: reply.statusmap };
     }
 
-    _getFanSpeed(statusmap: number) {
-        let speed = 0;
+    /**
+     * Sets a fan regulator to a speed step (0 = OFF) and confirms it from the device's reply.
+     */
+    async setFanSpeed(deviceId: string, speed: number, ip: string, retries = LOCAL_MAX_RETRIES, profile = FanProfile.DEFAULT, confirm = true): Promise<DeviceStatusResponse> {
+        speed = Math.max(0, Math.min(profile.steps, speed));
+        return this.setDimLevel(deviceId, profile.applianceMap, speed, ip, retries, confirm);
+    }
 
-        if (statusmap === 1)
-            speed = 1;
-        else if (statusmap === 0)
-            speed = 0;
-        else
-            speed = statusmap - 158;
+    /**
+     * Sends a dim control command (fan speed or dimmer brightness) to the gangs in `applianceMap`
+     * and confirms the level from the device's reply (unless `confirm` is off).
+     */
+    async setDimLevel(deviceId: string, applianceMap: number, level: number, ip: string, retries = LOCAL_MAX_RETRIES, confirm = true): Promise<DeviceStatusResponse> {
+        const message = this._setDimControl(this._getDeviceStrInHex(deviceId), applianceMap, level);
+        if (!confirm) {
+            await this._sendUDPPacket(ip, deviceId, message);
+            return { result: "success", switchmap: applianceMap, statusmap: level > 0 ? applianceMap : 0, speed: level };
+        }
+        const reply = await this._sendUDPCommand(ip, deviceId, message, retries);
+        if (reply.speed !== level) {
+            this.log.warn(`Local dim command for ${deviceId} not applied: expected level ${level} on map ${applianceMap}, device reports ${reply.speed}`);
+            throw new SmarteefiLocalError("Device did not apply command", deviceId);
+        }
+        return { result: "success", switchmap: reply.switchmap, statusmap: reply.statusmap, speed: reply.speed };
+    }
 
-        if (speed < 0)
-            speed = 0;
+    /**
+     * Queries the current switchmap/statusmap of a device over the LAN.
+     */
+    async getDeviceStatus(deviceId: string, ip: string, retries = LOCAL_MAX_RETRIES): Promise<DeviceStatusResponse> {
+        const message = this._getStatus(this._getDeviceStrInHex(deviceId));
+        const reply = await this._sendUDPCommand(ip, deviceId, message, retries);
+        return { result: "success", switchmap: reply.switchmap, statusmap: reply.statusmap, speed: reply.speed };
+    }
 
-        return speed;
+    _setSwitchStatus(deviceIdStr: string, switchMapStr: string, statusmapStr: string) {
+        return `${OPCODES.SET_SWITCH} 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 ${deviceIdStr} 00 00 00 00 00 00 00 00 00 00 00 00 ${switchMapStr} 00 00 00 ${statusmapStr} 00 00 00 00 00 00 00 00 00 00 00`;
     }
 
-    _setSwitchStatus(ip: string, deviceIdStr: string, switchMapStr: string, statusmapStr: string) {
-        let UDPMessage = `cc 10 10 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 ${deviceIdStr} 00 00 00 00 00 00 00 00 00 00 00 00 ${switchMapStr} 00 00 00 ${statusmapStr} 00 00 00 00 00 00 00 00 00 00 00`;
-        this._sendUDPCommand(ip, UDPMessage);
+    _setDimControl(deviceIdStr: string, applianceMap: number, level: number) {
+        return `${OPCODES.SET_DIM} 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 ${deviceIdStr} 00 00 00 00 00 00 00 00 00 00 00 00 ${this._toHexByte(applianceMap)} 00 00 00 00 00 00 00 ${this._toHexByte(level)} 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00`;
     }
 
-    _setFanStatus(ip: string, deviceIdStr: string, speed: number) {
-        let UDPMessage = `c0 12 20 00 e2 3b 0c 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 ${deviceIdStr} 00 00 00 00 00 00 00 00 00 00 00 00 70 00 00 00 00 00 00 00 0${speed} 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00`;
-        this._sendUDPCommand(ip, UDPMessage);
+    _getStatus(deviceIdStr: string) {
+        return `${OPCODES.GET_STATUS} 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 ${deviceIdStr} 00 00 00 00 00 00 00 00 00 00 00 00 ff 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00`;
     }
 
-    _prepareMessage(message: string) {
-        let data = message;
+    /**
+     * Broadcast probe that every Smarteefi device on the subnet answers with its serial.
+     */
+    _getDiscoveryProbe() {
+        return Buffer.from(this._prepareMessage(`${OPCODES.DISCOVER} 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00`), 'hex');
+    }
 
-        while (data.indexOf(' ') >= 0)
-            data = data.replace(' ', '');
+    /**
+     * Extracts the device serial from a reply/announcement packet, or null if the packet doesn't carry one.
+     */
+    _parseSerial(msg: Buffer): string | null {
+        if (msg.length <= HEADER_LENGTH) {
+            return null;
+        }
+        const end = msg.indexOf(0, HEADER_LENGTH);
+        const serial = msg.subarray(HEADER_LENGTH, end === -1 ? msg.length : end).toString('ascii');
+        return SERIAL_PATTERN.test(serial) ? serial : null;
+    }
 
-        return data;
+    _prepareMessage(message: string) {
+        return message.replace(/ /g, '');
     }
 
     _getDeviceStrInHex(deviceId: string) {
         return (Buffer.from(deviceId)).toString('hex');
     }
 
-    _prepareSwitchMapStatus(switchmap) {
-        return (switchmap > 10 ? (switchmap + "") : ("0" + switchmap));
+    _toHexByte(value: number) {
+        return (value & 0xff).toString(16).padStart(2, '0');
+    }
+
+    /**
+     * Encodes a switch packet map the way the plugin has always sent it: the decimal digits become the byte's
+     * hex digits (map 16, gang 4, goes out as 0x16). Maps above 99 can't be written that way.
+     */
+    _toDecimalByte(value: number, deviceId: string) {
+        if (!Number.isInteger(value) || value < 0 || value > 99) {
+            throw new SmarteefiLocalError(`Map ${value} can't be encoded in a local switch packet`, deviceId);
+        }
+        return String(value).padStart(2, '0');
+    }
+
+    /**
+     * Reverses _toDecimalByte for a byte of a reply (bytes that aren't two decimal digits are taken as they are).
+     */
+    _fromDecimalByte(byte: number) {
+        const digits = byte.toString(16);
+        return /^\d+$/.test(digits) ? Number(digits) : byte;
     }
 
-    _prepareStatusMapStatus(statusmap) {
-        return (statusmap > 10 ? (statusmap + "") : ("0" + statusmap));
+    /**
+     * Decodes a reply packet. Returns null when the packet is too short or belongs to another device.
+     */
+    _parseReply(msg: Buffer, deviceId: string): LocalReply | null {
+        const idLength = Buffer.byteLength(deviceId);
+        const mapIndex = HEADER_LENGTH + idLength + MAP_OFFSET;
+        const statusIndex = HEADER_LENGTH + idLength + STATUSMAP_OFFSET;
+        const speedIndex = HEADER_LENGTH + idLength + SPEED_OFFSET;
+        if (msg.length <= statusIndex) {
+            return null;
+        }
+        if (msg.subarray(HEADER_LENGTH, HEADER_LENGTH + idLength).toString() !== deviceId) {
+            return null;
+        }
+        return {
+            switchmap: this._fromDecimalByte(msg[mapIndex]),
+            statusmap: this._fromDecimalByte(msg[statusIndex]),
+            speed: msg.length > speedIndex ? msg[speedIndex] : 0,
+        };
     }
 
-    _sendUDPCommand(ip: string, message: string) {
-        const data = Buffer.from(this._prepareMessage(message), 'hex');
-        const _log = this.log;
-        const client = udp.createSocket('udp4');
-        client.send(data, 10201, ip, function (error) {
-            if (error) {
-                _log.debug("Oops!");
-            } else {
-                _log.debug(`Data sent to ${ip}`);
-            }
+    /**
+     * Sends a packet once without waiting for a reply; resolves when it has left the socket.
+     */
+    _sendUDPPacket(ip: string, deviceId: string, message: string): Promise<void> {
+        if (!ip) {
+            return Promise.reject(new SmarteefiLocalError("No IP address configured", deviceId));
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            const data = Buffer.from(this._prepareMessage(message), 'hex');
+            const client = udp.createSocket('udp4');
+            client.on('error', (error) => {
+                this.log.debug(`Local socket error for ${ip}: ${error.message}`);
+                try { client.close(); } catch { /* already closed */ }
+                reject(new SmarteefiLocalError(`Socket error: ${error.message}`, deviceId));
+            });
+            client.send(data, LOCAL_UDP_PORT, ip, (error) => {
+                try { client.close(); } catch { /* already closed */ }
+                if (error) {
+                    this.log.debug(`Failed to send local packet to ${ip}: ${error.message}`);
+                    return reject(new SmarteefiLocalError(`Send error: ${error.message}`, deviceId));
+                }
+                this.log.debug(`Data sent to ${ip} (not waiting for a reply)`);
+                resolve();
+            });
         });
-        client.on('message', function (msg, info) {
-            _log.debug('Received %d bytes from %s:%d\n', msg.length, info.address, info.port);
-            client.close();
+    }
+
+    /**
+     * Sends a packet and resolves with the matching reply, resending on timeout up to `retries` times.
+     */
+    _sendUDPCommand(ip: string, deviceId: string, message: string, retries: number): Promise<LocalReply> {
+        if (!ip) {
+            return Promise.reject(new SmarteefiLocalError("No IP address configured", deviceId));
+        }
+
+        return new Promise<LocalReply>((resolve, reject) => {
+            const data = Buffer.from(this._prepareMessage(message), 'hex');
+            const client = udp.createSocket('udp4');
+            let attempt = 0;
+            let timer: NodeJS.Timeout | null = null;
+            let finished = false;
+
+            const finish = (reply: LocalReply | null, error?: Error) => {
+                if (finished) return;
+                finished = true;
+                if (timer) clearTimeout(timer);
+                try { client.close(); } catch { /* already closed */ }
+                if (reply) {
+                    resolve(reply);
+                } else {
+                    reject(error);
+                }
+            };
+
+            const send = () => {
+                attempt++;
+                client.send(data, LOCAL_UDP_PORT, ip, (error) => {
+                    if (error) {
+                        this.log.debug(`Failed to send local packet to ${ip}: ${error.message}`);
+                        return finish(null, new SmarteefiLocalError(`Send error: ${error.message}`, deviceId));
+                    }
+                    this.log.debug(`Data sent to ${ip} (attempt ${attempt}/${retries + 1})`);
+                });
+                timer = setTimeout(() => {
+                    if (attempt <= retries) {
+                        this.log.debug(`No reply from ${ip} for ${deviceId} within ${LOCAL_RESPONSE_TIMEOUT}ms, retrying...`);
+                        send();
+                    } else {
+                        finish(null, new SmarteefiTimeoutError(`No reply from ${ip} after ${attempt} attempts`, deviceId));
+                    }
+                }, LOCAL_RESPONSE_TIMEOUT);
+            };
+
+            client.on('message', (msg, info) => {
+                this.log.debug(`Received ${msg.length} bytes from ${info.address}:${info.port}`);
+                if (info.address !== ip) return;
+                const reply = this._parseReply(msg, deviceId);
+                if (!reply) {
+                    this.log.debug(`Ignoring unrecognised reply from ${info.address} for ${deviceId}`);
+                    return;
+                }
+                finish(reply);
+            });
+            client.on('error', (error) => {
+                this.log.debug(`Local socket error for ${ip}: ${error.message}`);
+                finish(null, new SmarteefiLocalError(`Socket error: ${error.message}`, deviceId));
+            });
+
+            send();
         });
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,56 @@
+// Response models of the Smarteefi cloud API (v3) and the local UDP client.
+
+/**
+ * Fields common to every cloud response.
+ */
+export interface ApiResult {
+    result: string;
+    reason?: string;
+    major_ecode?: number;
+    minor_ecode?: number;
+}
+
+export interface LoginResponse extends ApiResult {
+    access_token?: string;
+}
+
+/**
+ * One gang ("switch") of a physical device as returned by /user/devices.
+ */
+export interface SwitchInfo {
+    name: string;
+    map?: string;
+    serial?: string;
+    model?: string; // Hardware model, not sent for every device
+    fwversion?: string; // Firmware version, not sent for every device
+}
+
+export interface UserDevicesResponse extends ApiResult {
+    switches?: SwitchInfo[];
+}
+
+/**
+ * Response of /device/getstatus and /device/setstatus (and their local equivalents).
+ * `speed` is only present when the state came from a local reply.
+ */
+export interface DeviceStatusResponse extends ApiResult {
+    switchmap: number;
+    statusmap: number;
+    speed?: number;
+}
+
+/**
+ * Response of /device/setdimctl (and the local dim command): status 1 = ON, value = speed step or brightness level.
+ */
+export interface FanSpeedResponse extends ApiResult {
+    status?: number;
+    value?: number;
+}
+
+/**
+ * Response of /device/getsettings and /device/setsettings: 1 = enabled. Fields a device doesn't support are absent.
+ */
+export interface DeviceSettingsResponse extends ApiResult {
+    childlock?: number | string;
+    led?: number | string;
+}
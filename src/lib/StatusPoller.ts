@@ -0,0 +1,85 @@
+import { Logger } from "homebridge";
+import { REFRESH_CONCURRENCY, REFRESH_JITTER } from "../constants";
+
+/**
+ * Runs status refresh cycles one at a time.
+ * A refresh requested while a cycle is running is folded into a single follow-up cycle, and within
+ * a cycle at most `concurrency` devices are polled at once, each after a random delay of up to `jitterMs`.
+ */
+export class StatusPoller {
+    private running: Promise<void> | null = null;
+    private queued: Promise<void> | null = null;
+    private stopped = false;
+
+    constructor(
+        private readonly log: Logger,
+        private readonly getDeviceIds: () => string[],
+        private readonly pollDevice: (deviceId: string) => Promise<void>,
+        private readonly concurrency = REFRESH_CONCURRENCY,
+        private readonly jitterMs = REFRESH_JITTER,
+    ) { }
+
+    /**
+     * Starts a cycle, or schedules one to run after the current cycle. Resolves when a cycle that
+     * started after this call has finished.
+     */
+    requestRefresh(reason = "scheduled"): Promise<void> {
+        if (this.stopped) {
+            return Promise.resolve();
+        }
+        if (!this.running) {
+            this.log.debug(`Starting status refresh (${reason}).`);
+            this.running = this._runCycle().finally(() => {
+                this.running = null;
+            });
+            return this.running;
+        }
+        if (!this.queued) {
+            this.log.debug(`Status refresh (${reason}) queued behind the running cycle.`);
+            this.queued = this.running.then(() => {
+                this.queued = null;
+                return this.requestRefresh(reason);
+            });
+        } else {
+            this.log.debug(`Status refresh (${reason}) coalesced with an already queued cycle.`);
+        }
+        return this.queued;
+    }
+
+    get isRunning(): boolean {
+        return this.running !== null;
+    }
+
+    stop() {
+        this.stopped = true;
+    }
+
+    private async _runCycle(): Promise<void> {
+        const deviceIds = [...new Set(this.getDeviceIds())];
+        if (deviceIds.length === 0) {
+            this.log.debug('Refresh skipped: no devices due.');
+            return;
+        }
+
+        const startedAt = Date.now();
+        this.log.info(`Starting status refresh for ${deviceIds.length} device groups...`);
+        let next = 0;
+        const worker = async () => {
+            while (next < deviceIds.length && !this.stopped) {
+                const deviceId = deviceIds[next++];
+                if (this.jitterMs > 0) {
+                    await new Promise(resolve => setTimeout(resolve, Math.random() * this.jitterMs));
+                }
+                try {
+                    await this.pollDevice(deviceId);
+                } catch (error) {
+                    const msg = error instanceof Error ? error.message : String(error);
+                    this.log.error(`Error refreshing ${deviceId}: ${msg}`);
+                }
+            }
+        };
+        const workers = Math.max(1, Math.min(this.concurrency, deviceIds.length));
+        await Promise.all(Array.from({ length: workers }, () => worker()));
+        this.log.info(`Status refresh cycle completed in ${Date.now() - startedAt} ms.`);
+    }
+}
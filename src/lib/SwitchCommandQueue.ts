@@ -0,0 +1,86 @@
+import { Logger } from "homebridge";
+import { COMMAND_MERGE_DELAY } from "../constants";
+import { DeviceStatusResponse } from "./SmarteefiTypes";
+
+/**
+ * Gang changes waiting to be sent to one device as a single masked command.
+ */
+interface PendingCommand {
+    deviceId: string;
+    ip: string | null;
+    switchmap: number; // Gangs to change
+    statusmap: number; // Their new state (only the bits in switchmap count)
+    duration: number; // Seconds after which the device reverts the change (0 = never)
+    waiters: { resolve: (response: DeviceStatusResponse) => void; reject: (error: unknown) => void }[];
+}
+
+/**
+ * Sends on/off commands one at a time per device. Gang changes requested within `mergeDelayMs` of each
+ * other, or while the device's previous command is still in flight, are merged into one masked command
+ * (switchmap = the gangs to change, statusmap = their new state), so a scene switching a whole board
+ * sends one command instead of several racing ones. Every caller gets the merged command's result.
+ * A change is only merged into the device's newest pending command, and only if both have the same device-side
+ * duration; otherwise it gets a command of its own behind it, so commands always go out in the order asked for.
+ */
+export class SwitchCommandQueue {
+    private pending = new Map<string, PendingCommand[]>(); // Unsent commands by device, oldest first
+    private running = new Map<string, Promise<void>>();
+
+    constructor(
+        private readonly log: Logger,
+        private readonly send: (deviceId: string, ip: string | null, switchmap: number, statusmap: number, duration: number) => Promise<DeviceStatusResponse>,
+        private readonly mergeDelayMs = COMMAND_MERGE_DELAY,
+    ) { }
+
+    /**
+     * Queues a change of the gangs in `switchmap` to the matching bits of `statusmap`. A later change
+     * to the same gang overrides an earlier one that hasn't been sent yet. A `duration` (seconds) asks the
+     * device to revert the change by itself after that time.
+     */
+    enqueue(deviceId: string, ip: string | null, switchmap: number, statusmap: number, duration = 0): Promise<DeviceStatusResponse> {
+        return new Promise<DeviceStatusResponse>((resolve, reject) => {
+            const queued = this.pending.get(deviceId) ?? [];
+            let command = queued[queued.length - 1];
+            if (!command || command.duration !== duration) {
+                command = { deviceId, ip, switchmap: 0, statusmap: 0, duration, waiters: [] };
+                this.pending.set(deviceId, [...queued, command]);
+                this._schedule(deviceId, command);
+            }
+            command.ip = ip || command.ip;
+            command.statusmap = (command.statusmap & ~switchmap) | (statusmap & switchmap);
+            command.switchmap |= switchmap;
+            command.waiters.push({ resolve, reject });
+        });
+    }
+
+    private _schedule(deviceId: string, command: PendingCommand) {
+        const previous = this.running.get(deviceId) ?? Promise.resolve();
+        const run = previous
+            .then(() => new Promise(resolve => setTimeout(resolve, this.mergeDelayMs)))
+            .then(() => this._flush(command));
+        this.running.set(deviceId, run);
+        run.then(() => {
+            if (this.running.get(deviceId) === run) {
+                this.running.delete(deviceId);
+            }
+        });
+    }
+
+    private async _flush(command: PendingCommand) {
+        const queued = (this.pending.get(command.deviceId) ?? []).filter(entry => entry !== command);
+        if (queued.length > 0) {
+            this.pending.set(command.deviceId, queued);
+        } else {
+            this.pending.delete(command.deviceId);
+        }
+        if (command.waiters.length > 1) {
+            this.log.debug(`Merged ${command.waiters.length} gang changes for ${command.deviceId} into one command (switchmap=${command.switchmap}, statusmap=${command.statusmap}).`);
+        }
+        try {
+            const response = await this.send(command.deviceId, command.ip, command.switchmap, command.statusmap, command.duration);
+            command.waiters.forEach(waiter => waiter.resolve(response));
+        } catch (error) {
+            command.waiters.forEach(waiter => waiter.reject(error));
+        }
+    }
+}
@@ -1,31 +1,296 @@
 import { PlatformAccessory, Service } from "homebridge";
 import { SmarteefiPlatform } from "../../platform";
-import { Config, DeviceStatus } from "../Config";
+import { Device, DeviceStatus, HardwareInfo } from "../Config";
 import { SmarteefiAPIHelper } from "../SmarteefiAPIHelper";
-import { STRINGS } from "../../constants";
+import * as SmarteefiHelper from "../SmarteefiHelper";
+import { SmarteefiAuthError, SmarteefiCancelledError, SmarteefiDeviceOfflineError, SmarteefiTimeoutError } from "../SmarteefiErrors";
+import { COMMAND_RETRIES, COMMAND_RETRY_DELAY, COMMAND_TIMEOUT_MARGIN, STRINGS } from "../../constants";
+
+/**
+ * Service classes a gang can be exposed as.
+ */
+export type GangService = typeof Service.Switch | typeof Service.Outlet | typeof Service.Lightbulb
+    | typeof Service.Fan | typeof Service.Fanv2 | typeof Service.Valve;
+
+/**
+ * How `runCommand` sends a command to the device.
+ */
+export interface CommandOptions<T> {
+    action: string; // What the command does, for log messages (e.g. "switch ON")
+    send: () => Promise<T>;
+    debounceKey?: string; // Commands with the same key supersede each other while debouncing
+    debounceMs?: number; // How long the value must rest before it is sent
+    retries?: number; // Further attempts after a possibly transient failure (default COMMAND_RETRIES)
+    timeoutMs?: number; // Overall time for all attempts (default: the control path's worst case plus COMMAND_TIMEOUT_MARGIN)
+    optimistic?: () => void; // Shows the expected state in the cache and HomeKit right away (after the rollback snapshot)
+    rollback?: boolean; // Snapshot the device's statusmap/speed before `optimistic` and restore it on failure
+    onSuccess?: (result: T) => void;
+    onFailure?: () => void; // Undo optimistic changes (after the snapshot has been restored, with `rollback`)
+    affectsGangs?: boolean; // Switches the gang: keep its echo from counting as a button press and poll to verify (default true)
+}
 
 export class BaseAccessory {
     protected service: Service | undefined;
     protected apiHelper: SmarteefiAPIHelper;
     protected deviceStatus: DeviceStatus = DeviceStatus.Instance();
     protected accessoryService: Service;
-    protected platformService: typeof Service.Fanv2 | typeof Service.Switch | undefined;
+    protected platformService: GangService | undefined;
+    protected device: Device; // The gang this handler controls
+    protected grouped: boolean; // The accessory holds every gang of the device (`groupGangs`)
+    private debounceTickets = new Map<string, number>(); // Latest command per debounce key, while it is debouncing
+    private lastTicket = 0;
+
+    /**
+     * `gang` is given in grouped mode, where one accessory carries a service per gang;
+     * otherwise the accessory is the gang and `context.device` describes it.
+     */
     constructor(
         protected platform: SmarteefiPlatform,
-        protected accessory: PlatformAccessory
+        protected accessory: PlatformAccessory,
+        gang?: Device,
     ) {
         this.platform = platform;
         this.accessory = accessory;
-        this.apiHelper = SmarteefiAPIHelper.Instance(new Config(platform.config.userid, platform.config.password, platform.config.devices, platform.config.local), platform.log);
+        this.device = gang ?? accessory.context.device;
+        this.grouped = !!gang;
+        this.apiHelper = platform.apiHelper;
 
         this.accessoryService = this.accessory.getService(this.platform.Service.AccessoryInformation) as Service;
 
         if (this.accessoryService) {
             this.accessoryService.setCharacteristic(this.platform.Characteristic.Manufacturer, STRINGS.BRAND);
-            this.accessoryService.setCharacteristic(this.platform.Characteristic.SerialNumber, accessory.context.device.id + "-" + Math.random());
+            // Stable across restarts: the device serial, plus the gang when each gang is its own accessory
+            this.accessoryService.setCharacteristic(this.platform.Characteristic.SerialNumber,
+                this.grouped ? this.device.id : `${this.device.id}-${this.device.sequence}`);
+            if (this.hardware?.firmware) {
+                this.accessoryService.setCharacteristic(this.platform.Characteristic.FirmwareRevision, this.hardware.firmware);
+            }
         }
     }
 
+    /**
+     * What the cloud reported about the device, recorded in the accessory context at discovery.
+     */
+    protected get hardware(): HardwareInfo | undefined {
+        return this.accessory.context.hardware;
+    }
+
+    /**
+     * Name of the gang, used for its service and in log messages.
+     */
+    protected get name(): string {
+        return this.grouped ? this.device.name : this.accessory.displayName;
+    }
+
+    /**
+     * Sets the accessory's Model: the model the device reports, else `model`
+     * (a grouped accessory is the whole switchboard whatever its gangs are).
+     */
+    protected setModel(model: string) {
+        this.accessoryService?.setCharacteristic(this.platform.Characteristic.Model,
+            this.hardware?.model || (this.grouped ? STRINGS.BOARD : model));
+    }
+
+    /**
+     * Finds or creates the gang's service. In grouped mode each gang's service has its own subtype
+     * and a ServiceLabelIndex (sequence + 1) so HomeKit can tell and order them.
+     */
+    protected getGangService(serviceType: GangService): Service {
+        const existing = SmarteefiHelper.findGangService(this.accessory, serviceType, this.device.sequence, this.grouped);
+        if (!this.grouped) {
+            return existing || this.accessory.addService(serviceType, this.accessory.displayName);
+        }
+        const service = existing
+            || this.accessory.addService(serviceType, this.device.name, SmarteefiHelper.getGangSubtype(this.device.sequence));
+        service.setCharacteristic(this.platform.Characteristic.Name, this.device.name);
+        if (!service.testCharacteristic(this.platform.Characteristic.ServiceLabelIndex)) {
+            service.addOptionalCharacteristic(this.platform.Characteristic.ServiceLabelIndex);
+        }
+        service.setCharacteristic(this.platform.Characteristic.ServiceLabelIndex, this.device.sequence + 1);
+        return service;
+    }
+
+    /**
+     * Adds the gang's StatelessProgrammableSwitch when `buttonEvents` is on (on/off gangs only),
+     * or removes it when it was turned off. The platform fires its single-press events.
+     */
+    protected setupButtonService() {
+        const subtype = SmarteefiHelper.getButtonSubtype(this.device.sequence);
+        const existing = this.accessory.getServiceById(this.platform.Service.StatelessProgrammableSwitch, subtype);
+        if (!this.device.buttonEvents || this.device.isFan) {
+            if (existing) {
+                this.platform.log.info(`Removing button events from ${this.name}.`);
+                this.accessory.removeService(existing);
+            }
+            return;
+        }
+        const button = existing
+            || this.accessory.addService(this.platform.Service.StatelessProgrammableSwitch, `${this.name} Button`, subtype);
+        button.setCharacteristic(this.platform.Characteristic.Name, `${this.name} Button`);
+        // A toggle can only report that it was pressed, not double or long presses
+        button.getCharacteristic(this.platform.Characteristic.ProgrammableSwitchEvent)
+            .setProps({ validValues: [this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS] });
+        if (this.grouped) {
+            button.setCharacteristic(this.platform.Characteristic.ServiceLabelIndex, this.device.sequence + 1);
+        }
+    }
+
+    /**
+     * Adds SetDuration and RemainingDuration when the gang has `autoOff` (Valve semantics: how long the gang stays
+     * on, and how long until it switches off), or removes them once it hasn't. The platform runs the timer.
+     */
+    protected setupAutoOff() {
+        const service = this.service;
+        if (!service) {
+            return;
+        }
+        const { SetDuration, RemainingDuration } = this.platform.Characteristic;
+        if (!(this.device.autoOff > 0)) {
+            for (const characteristic of [SetDuration, RemainingDuration]) {
+                if (service.testCharacteristic(characteristic)) {
+                    service.removeCharacteristic(service.getCharacteristic(characteristic));
+                }
+            }
+            return;
+        }
+        const seconds = this.device.autoOff * 60;
+        for (const characteristic of [SetDuration, RemainingDuration]) {
+            if (!service.testCharacteristic(characteristic)) {
+                service.addOptionalCharacteristic(characteristic);
+            }
+            service.getCharacteristic(characteristic).setProps({ maxValue: Math.max(3600, seconds) });
+        }
+        // The configured time applies at every start; one chosen in HomeKit lasts until the next restart
+        service.updateCharacteristic(SetDuration, seconds);
+        service.getCharacteristic(RemainingDuration)
+            .onGet(() => this.platform.autoOff.remaining(this.device.id, this.device.sequence));
+    }
+
+    /**
+     * Sends a command the way every accessory does: optionally debounced, marked in progress so status
+     * refreshes don't undo it, retried with backoff on transient errors and given up after `timeoutMs`.
+     * On success the device is polled right away to verify the new gang state; on failure the `rollback` snapshot
+     * is restored, `onFailure` runs and HomeKit gets a HapStatusError. Resolves with undefined if a newer debounced
+     * command superseded it. A burst of debounced commands shares the snapshot taken by its first one, so a failure
+     * goes back to the state from before the burst.
+     */
+    protected async runCommand<T>(options: CommandOptions<T>): Promise<T | undefined> {
+        const deviceId = this.device.id;
+        const { action, debounceKey, debounceMs = 0, retries = COMMAND_RETRIES,
+            timeoutMs = this.apiHelper.getCommandTimeout(deviceId) + COMMAND_TIMEOUT_MARGIN } = options;
+        const burstPending = !!debounceKey && debounceMs > 0 && this.debounceTickets.has(debounceKey);
+        this.deviceStatus.markCommandInProgress(deviceId);
+        if (options.rollback && !burstPending) {
+            this.deviceStatus.saveRollbackState(deviceId);
+        }
+        options.optimistic?.();
+
+        if (debounceKey && debounceMs > 0) {
+            const ticket = ++this.lastTicket;
+            this.debounceTickets.set(debounceKey, ticket);
+            await new Promise(resolve => setTimeout(resolve, debounceMs));
+            if (this.debounceTickets.get(debounceKey) !== ticket) {
+                this.platform.log.debug(`${this.name}: ${action} superseded by a newer request.`);
+                return undefined;
+            }
+            this.debounceTickets.delete(debounceKey);
+        }
+
+        try {
+            const result = await this.sendWithRetries(options, retries, Date.now() + timeoutMs);
+            this.deviceStatus.markCommandComplete(deviceId);
+            this.platform.log.info(`${this.name}: ${action} successful.`);
+            options.onSuccess?.(result);
+            if (options.affectsGangs !== false) {
+                this.platform.notifyCommand(deviceId, this.device.sequence);
+                // Verify: the poll right after the command confirms the new state (or reverts it)
+                setImmediate(() => this.platform.refreshStatus('command'));
+            }
+            return result;
+        } catch (error) {
+            this.deviceStatus.markCommandComplete(deviceId);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.platform.log.error(`${this.name}: ${action} failed: ${errorMessage}`);
+            if (options.rollback && this.deviceStatus.rollbackState(deviceId)) {
+                this.platform.log.info(`[ROLLBACK] Reverted state for ${deviceId}`);
+            }
+            options.onFailure?.();
+            const status = error instanceof SmarteefiTimeoutError
+                ? this.platform.api.hap.HAPStatus.OPERATION_TIMED_OUT
+                : this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE;
+            throw new this.platform.api.hap.HapStatusError(status);
+        }
+    }
+
+    /**
+     * Sends until an attempt succeeds, fails for good or the deadline passes. Only settled attempts are retried:
+     * one still running at the deadline is left to finish on its own, as resending would queue behind it.
+     */
+    private async sendWithRetries<T>(options: CommandOptions<T>, retries: number, deadline: number): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            const remaining = deadline - Date.now();
+            const expired = new SmarteefiTimeoutError("Command timed out", this.device.id);
+            let timer: NodeJS.Timeout | undefined;
+            const timeout = new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(expired), remaining);
+            });
+            try {
+                return await Promise.race([options.send(), timeout]);
+            } catch (error) {
+                const delay = COMMAND_RETRY_DELAY * Math.pow(2, attempt);
+                if (error === expired || attempt >= retries || !this.isTransient(error) || Date.now() + delay >= deadline) {
+                    throw error;
+                }
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                this.platform.log.debug(`${this.name}: ${options.action} failed (${errorMessage}), retrying in ${delay} ms...`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            } finally {
+                clearTimeout(timer);
+            }
+        }
+    }
+
+    /**
+     * Whether a failed command may succeed when sent again.
+     */
+    private isTransient(error: unknown): boolean {
+        return !(error instanceof SmarteefiDeviceOfflineError || error instanceof SmarteefiAuthError
+            || error instanceof SmarteefiCancelledError);
+    }
+
+    /**
+     * Switches this on/off gang: the cache and HomeKit show the new state at once, the command goes through
+     * the device's command queue and a later status read confirms it (see DeviceStatus.reconcileGangCommands).
+     * `showState` pushes an on/off state to the gang's characteristics, e.g. when the command is rolled back.
+     */
+    protected async setGangOn(targetOn: boolean, showState: (isOn: boolean) => void): Promise<void> {
+        const device = this.device;
+        const switchmap = SmarteefiHelper.getSwitchMap(device.sequence);
+        // Just this gang's bit; inverted gangs (normally-closed wiring) clear it to turn ON
+        const statusmap = SmarteefiHelper.gangStatusMap(targetOn, device);
+
+        const command = this.deviceStatus.startGangCommand(device.id, device.sequence, statusmap);
+        showState(targetOn);
+
+        // With auto-off the device is asked to switch back by itself as well (the platform's timer is the fallback)
+        const duration = targetOn ? this.platform.autoOffSeconds(this.accessory, device) : 0;
+
+        await this.runCommand({
+            action: `switch ${targetOn ? 'ON' : 'OFF'}`,
+            // Queued per device, so simultaneous changes to other gangs go out in the same command
+            send: () => this.apiHelper.setGangStatus(device.id, device.ip, switchmap, statusmap, duration),
+            onSuccess: () => this.deviceStatus.acknowledgeGangCommand(command),
+            onFailure: () => {
+                // Unless a newer command to this gang has taken over
+                if (this.deviceStatus.rollbackGangCommand(device.id, device.sequence, command)) {
+                    const isOn = SmarteefiHelper.isGangOn(this.deviceStatus.getStatusMap(device.id)?.statusmap ?? 0, device);
+                    this.platform.log.info(`[ROLLBACK] Reverted ${this.name} to ${isOn ? 'ON' : 'OFF'}`);
+                    showState(isOn);
+                }
+            },
+        });
+    }
+
     setService() {
         if (this.platformService) {
             
@@ -34,7 +299,34 @@ export class BaseAccessory {
                 service = this.accessory.addService(this.platformService);
             this.service = service;
 
-            this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.context.device.name);
+            this.service.setCharacteristic(this.platform.Characteristic.Name, this.device.name);
+        }
+    }
+
+    /**
+     * Removes gang services of other types, left in the cache when a gang's type changes.
+     */
+    protected removeStaleServices(keep: GangService) {
+        const { Switch, Outlet, Lightbulb, Fan, Fanv2, Valve } = this.platform.Service;
+        for (const serviceType of [Switch, Outlet, Lightbulb, Fan, Fanv2, Valve]) {
+            if (serviceType.UUID === keep.UUID) {
+                continue;
+            }
+            const stale = SmarteefiHelper.findGangService(this.accessory, serviceType, this.device.sequence, this.grouped);
+            if (stale) {
+                this.platform.log.info(`Removing ${stale.displayName || serviceType.name} service from ${this.name}: gang type changed.`);
+                this.accessory.removeService(stale);
+            }
+        }
+    }
+
+    /**
+     * Throws the HAP "No Response" error when the device is offline, so every GET handler reports it the same way.
+     */
+    protected assertOnline(characteristicName: string) {
+        if (!this.deviceStatus.isOnline(this.device.id)) {
+            this.platform.log.debug(`GET ${characteristicName} for ${this.name}: device is offline.`);
+            throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
     }
 }
\ No newline at end of file
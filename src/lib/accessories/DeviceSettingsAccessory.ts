@@ -0,0 +1,71 @@
+import { PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { SmarteefiPlatform } from '../../platform';
+import * as SmarteefiHelper from '../SmarteefiHelper';
+import { BaseAccessory } from './BaseAccessory';
+import { DEVICE_SETTINGS, DEVICE_SETTING_NAMES, Device, DeviceSetting } from '../Config';
+import { COMMAND_TIMEOUT_MARGIN } from '../../constants';
+
+/**
+ * Device-level settings (child lock, indicator LED) as extra switches on the device's first accessory.
+ * Only the settings listed under the device's `settings` get a switch; switches of others, and of settings
+ * the cloud turned out not to offer for the device, are removed.
+ */
+export class DeviceSettingsAccessory extends BaseAccessory {
+
+    constructor(
+        platform: SmarteefiPlatform,
+        accessory: PlatformAccessory,
+        gang?: Device,
+    ) {
+        super(platform, accessory, gang);
+
+        const exposed = this.apiHelper.getExposedSettings(this.device.id)
+            .filter(setting => this.deviceStatus.isSettingSupported(this.device.id, setting));
+        for (const setting of DEVICE_SETTINGS) {
+            const subtype = SmarteefiHelper.getSettingSubtype(setting);
+            const existing = this.accessory.getServiceById(this.platform.Service.Switch, subtype);
+            if (!exposed.includes(setting)) {
+                if (existing) {
+                    this.platform.log.info(`Removing ${DEVICE_SETTING_NAMES[setting]} switch from ${this.accessory.displayName}.`);
+                    this.accessory.removeService(existing);
+                }
+                continue;
+            }
+            const name = DEVICE_SETTING_NAMES[setting];
+            const service = existing || this.accessory.addService(this.platform.Service.Switch, name, subtype);
+            service.setCharacteristic(this.platform.Characteristic.Name, name);
+            service.getCharacteristic(this.platform.Characteristic.On)
+                .onSet((value) => this.setSetting(setting, value))
+                .onGet(() => this.getSetting(setting));
+        }
+    }
+
+    async setSetting(setting: DeviceSetting, value: CharacteristicValue): Promise<void> {
+        const enabled = value as boolean;
+        const deviceId = this.device.id;
+        const name = DEVICE_SETTING_NAMES[setting];
+        this.platform.log.info(`SET ${name} request for ${this.accessory.displayName} to ${enabled}`);
+
+        await this.runCommand({
+            action: `turn ${name} ${enabled ? 'ON' : 'OFF'}`,
+            send: () => this.apiHelper.setDeviceSetting(deviceId, setting, enabled),
+            timeoutMs: this.apiHelper.getCommandTimeout(deviceId, true) + COMMAND_TIMEOUT_MARGIN,
+            onSuccess: (settings) => this.deviceStatus.setDeviceSettings(deviceId, settings),
+            onFailure: () => {
+                const service = this.accessory.getServiceById(this.platform.Service.Switch, SmarteefiHelper.getSettingSubtype(setting));
+                service?.updateCharacteristic(this.platform.Characteristic.On, this.deviceStatus.getDeviceSetting(deviceId, setting) ?? false);
+            },
+            // The gangs don't change, so there is nothing to verify or to keep from counting as a press
+            affectsGangs: false,
+        });
+    }
+
+    async getSetting(setting: DeviceSetting): Promise<CharacteristicValue> {
+        const name = DEVICE_SETTING_NAMES[setting];
+        this.assertOnline(name);
+        // Until the cloud has reported the setting, show it as off
+        const enabled = this.deviceStatus.getDeviceSetting(this.device.id, setting) ?? false;
+        this.platform.log.debug(`GET ${name} for ${this.accessory.displayName}: ${enabled}`);
+        return enabled;
+    }
+}
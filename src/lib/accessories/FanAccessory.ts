@@ -3,42 +3,44 @@
 import { Service, PlatformAccessory, CharacteristicValue, Characteristic } from 'homebridge'; // Added NumericCharacteristic for type check
 import { SmarteefiPlatform } from '../../platform';
 import * as SmarteefiHelper from '../SmarteefiHelper';
-import { STRINGS } from '../../constants';
+import { SLIDER_DEBOUNCE, STRINGS } from '../../constants';
 import { BaseAccessory } from './BaseAccessory';
+import { Device } from '../Config';
+import { FanProfile } from '../FanProfile';
 
 // Assume SmarteefiHelper.valueToPercent exists
 
 export class FanAccessory extends BaseAccessory {
-    private speedDebounceTimer: NodeJS.Timeout | null = null;
-
     constructor(
         platform: SmarteefiPlatform,
         accessory: PlatformAccessory,
+        gang?: Device,
     ) {
-        super(platform, accessory);
+        super(platform, accessory, gang);
 
         // ... constructor service setup ...
-        if (this.accessoryService) {
-            this.accessoryService.setCharacteristic(this.platform.Characteristic.Model, STRINGS.FAN);
-        }
+        this.setModel(STRINGS.FAN);
+        this.removeStaleServices(this.platform.Service.Fanv2);
+        this.setupButtonService(); // Drops a button left over from when the gang was an on/off type
         try {
-            this.service = this.accessory.getService(this.platform.Service.Fanv2)
-                || this.accessory.addService(this.platform.Service.Fanv2, this.accessory.displayName);
+            this.service = this.getGangService(this.platform.Service.Fanv2);
         } catch (error) {
-            this.platform.log.error(`Failed to get or add Fanv2 service for ${this.accessory.displayName}: ${error}`);
+            this.platform.log.error(`Failed to get or add Fanv2 service for ${this.name}: ${error}`);
             return;
         }
-        this.platform.log.debug(`Setting up Fanv2 service for ${this.accessory.displayName}`);
+        this.platform.log.debug(`Setting up Fanv2 service for ${this.name}`);
+        this.setupAutoOff();
         
         // Configure RotationSpeed characteristic with discrete steps FIRST
+        const profile = this.fanProfile;
         const rotationSpeedChar = this.service.getCharacteristic(this.platform.Characteristic.RotationSpeed);
         rotationSpeedChar.setProps({
-            minStep: 25,  // Makes slider snap to discrete levels: 0%, 25%, 50%, 75%, 100%
+            minStep: profile.minStep,  // Makes slider snap to the regulator's speed steps
             minValue: 0,
             maxValue: 100,
             validValueRanges: [0, 100], // Explicitly set valid range
         });
-        this.platform.log.info(`✓ Configured ${this.accessory.displayName} with discrete speed steps: 0%, 25%, 50%, 75%, 100%`);
+        this.platform.log.info(`✓ Configured ${this.name} with discrete speed steps: 0%, ${profile.percents.join('%, ')}%`);
 
         // Register Handlers AFTER props are set
         this.service.getCharacteristic(this.platform.Characteristic.Active)
@@ -50,69 +52,74 @@ export class FanAccessory extends BaseAccessory {
 
         // Initialize characteristics to avoid UI defaulting to 100%
         try {
-            const deviceId = this.accessory.context.device.id;
+            const deviceId = this.device.id;
             const status = this.deviceStatus.getStatusMap(deviceId);
             // Prefer cached speed if available; otherwise default to 0
-            let initSpeedPercent = status?.speedValue ? SmarteefiHelper.valueToPercent(status.speedValue) : 0;
+            let initSpeedPercent = status?.speedValue ? SmarteefiHelper.valueToPercent(status.speedValue, this.fanProfile) : 0;
             if (initSpeedPercent < 0) initSpeedPercent = 0;
             if (initSpeedPercent > 100) initSpeedPercent = 100;
             const isFanOn = initSpeedPercent > 0;
             this.service.updateCharacteristic(this.platform.Characteristic.Active, isFanOn ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE);
             this.service.updateCharacteristic(this.platform.Characteristic.RotationSpeed, initSpeedPercent);
-            this.platform.log.debug(`Initialized ${this.accessory.displayName} Active=${isFanOn} RotationSpeed=${initSpeedPercent}%`);
+            this.platform.log.debug(`Initialized ${this.name} Active=${isFanOn} RotationSpeed=${initSpeedPercent}%`);
         } catch { /* ignore init errors */ }
     }
 
+    /**
+     * Speed steps and percent mapping of this fan's regulator, from config.
+     */
+    private get fanProfile(): FanProfile {
+        return this.apiHelper.getFanProfile(this.device.id);
+    }
+
     // --- GET Handlers ---
     async getSpeed(): Promise<CharacteristicValue> {
-        const deviceId = this.accessory.context.device.id;
+        this.assertOnline('RotationSpeed');
+        const deviceId = this.device.id;
         const currentDeviceStatus = this.deviceStatus.getStatusMap(deviceId);
         const cachedSpeedValue = currentDeviceStatus?.speedValue ?? null;
         const speedPercent = (cachedSpeedValue !== null && cachedSpeedValue > 0)
-            ? SmarteefiHelper.valueToPercent(cachedSpeedValue)
+            ? SmarteefiHelper.valueToPercent(cachedSpeedValue, this.fanProfile)
             : 0;
         // Clamp to [0,100]
-        // (valueToPercent guarantees 0/25/50/75/100, but clamp defensively)
+        // (valueToPercent only returns the profile's step percentages, but clamp defensively)
         // Note: speedPercent is const; clamp via computed value if needed
         const clamped = Math.max(0, Math.min(100, speedPercent));
 
-        this.platform.log.info(`GET RotationSpeed for ${this.accessory.displayName}: Returning ${clamped}% (speedValue=${cachedSpeedValue})`);
+        this.platform.log.info(`GET RotationSpeed for ${this.name}: Returning ${clamped}% (speedValue=${cachedSpeedValue})`);
         return clamped;
     }
 
     async getONOFFState(): Promise<CharacteristicValue> {
-        const deviceId = this.accessory.context.device.id;
+        const deviceId = this.device.id;
         const currentDeviceStatus = this.deviceStatus.getStatusMap(deviceId);
         const statusmap = currentDeviceStatus?.statusmap ?? 0;
-        const sequence = this.accessory.context.device.sequence;
+        const sequence = this.device.sequence;
         const fanBit = SmarteefiHelper.getSwitchMap(sequence);
 
-        this.platform.log.debug(`GET Active for ${this.accessory.displayName}: DeviceId=${deviceId}, StatusMap=${statusmap}`);
+        this.platform.log.debug(`GET Active for ${this.name}: DeviceId=${deviceId}, StatusMap=${statusmap}`);
         
-        if (statusmap === -1) {
-            this.platform.log.warn(`GET Active for ${this.accessory.displayName}: Status is marked as errored (-1).`);
-            throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
-        }
+        this.assertOnline('Active');
 
         // Consider transient in-flight speed changes as ON to avoid flicker
         const transientOn = (currentDeviceStatus?.pendingUpdate === true) && ((statusmap & fanBit) !== 0);
         const cachedSpeedValue = currentDeviceStatus?.speedValue ?? null;
         const effectivePercent = (cachedSpeedValue && cachedSpeedValue > 0)
-            ? SmarteefiHelper.valueToPercent(cachedSpeedValue)
+            ? SmarteefiHelper.valueToPercent(cachedSpeedValue, this.fanProfile)
             : 0;
 
         const isActive = (effectivePercent > 0 || transientOn)
             ? this.platform.Characteristic.Active.ACTIVE
             : this.platform.Characteristic.Active.INACTIVE;
         
-        this.platform.log.info(`GET Active state for ${this.accessory.displayName}: Returning ${isActive === 0 ? 'INACTIVE' : 'ACTIVE'} (percent=${effectivePercent}, statusmap=${statusmap}, transientOn=${transientOn})`);
+        this.platform.log.info(`GET Active state for ${this.name}: Returning ${isActive === 0 ? 'INACTIVE' : 'ACTIVE'} (percent=${effectivePercent}, statusmap=${statusmap}, transientOn=${transientOn})`);
         return isActive;
     }
 
     // --- SET Handlers ---
     async setSpeed(value: CharacteristicValue): Promise<void> {
         const requestedSpeedPercent = value as number;
-        this.platform.log.info(`SET RotationSpeed request for ${this.accessory.displayName} to ${requestedSpeedPercent}%`);
+        this.platform.log.info(`SET RotationSpeed request for ${this.name} to ${requestedSpeedPercent}%`);
 
         if (requestedSpeedPercent <= 0) {
             this.platform.log.warn(`RotationSpeed set to ${requestedSpeedPercent}%. Triggering OFF state and setting speed to 0.`);
@@ -121,38 +128,47 @@ export class FanAccessory extends BaseAccessory {
             return await this.setONOFFState(this.platform.Characteristic.Active.INACTIVE);
         }
 
-        const deviceId = this.accessory.context.device.id;
-        const apiHelper = this.platform.apiHelper;
-        
-        if (!apiHelper || !this.accessory.context?.device) {
-            this.platform.log.error(`API Helper or device context not available for ${this.accessory.displayName}`);
-            throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
-        }
-
-        const deviceIp = this.accessory.context.device.ip;
-
-        // Convert percentage to API value (1-4) for cache
-        let targetSpeedValue: number;
-        if (requestedSpeedPercent <= 25) {
-            targetSpeedValue = 1;
-        } else if (requestedSpeedPercent <= 50) {
-            targetSpeedValue = 2;
-        } else if (requestedSpeedPercent <= 75) {
-            targetSpeedValue = 3;
-        } else {
-            targetSpeedValue = 4;
-        }
-
-        // OPTIMISTIC UPDATE PATTERN:
-        // 1. Save current state for rollback
-        this.deviceStatus.saveRollbackState(deviceId);
-        this.deviceStatus.markCommandInProgress(deviceId);
+        const deviceId = this.device.id;
+        const deviceIp = this.device.ip;
+
+        // Convert percentage to the regulator's speed step for cache
+        const targetSpeedValue = this.fanProfile.percentToValue(requestedSpeedPercent);
+
+        // OPTIMISTIC UPDATE PATTERN, through the command pipeline: runCommand snapshots the state for rollback
+        // (once per slider drag), then the cache and HomeKit show the new speed, and only the final speed is sent
+        await this.runCommand({
+            action: `set speed to ${requestedSpeedPercent}%`,
+            debounceKey: 'speed',
+            debounceMs: SLIDER_DEBOUNCE,
+            rollback: true,
+            optimistic: () => this.showSpeed(targetSpeedValue, requestedSpeedPercent),
+            send: () => this.apiHelper.setFanSpeed(deviceId, deviceIp, requestedSpeedPercent),
+            onSuccess: (response) => {
+                // API Success - confirm with API values if available
+                if (response.status !== undefined && response.value !== undefined) {
+                    const apiReportedSpeedValue = response.value;
+                    // Do NOT change ON/OFF based on setdimctl response.status; only update speedValue
+                    const cached2 = this.deviceStatus.getStatusMap(deviceId);
+                    const currentStatusmap2 = cached2?.statusmap ?? 0;
+                    const currentSwitchmap2 = cached2?.switchmap ?? 255;
+                    this.platform.log.debug(`[API_CONFIRM] Updating cache speed only: keep statusmap=${currentStatusmap2}, speed=${apiReportedSpeedValue}`);
+                    this.deviceStatus.setStatusMap(deviceId, currentSwitchmap2, currentStatusmap2, apiReportedSpeedValue);
+                    this.deviceStatus.setPreservedSpeedValue(deviceId, apiReportedSpeedValue);
+                }
+            },
+            // API Failure - show the restored state
+            onFailure: () => this.showCachedState(),
+        });
+    }
 
-        // 2. Update cache immediately (optimistic)
+    /**
+     * Optimistic part of setSpeed: the fan is on at the new speed in the cache and in HomeKit.
+     */
+    private showSpeed(targetSpeedValue: number, requestedSpeedPercent: number) {
+        const deviceId = this.device.id;
         this.platform.log.info(`[OPTIMISTIC] Updating cache for ${deviceId}: speed=${targetSpeedValue} (${requestedSpeedPercent}%)`);
         const cached = this.deviceStatus.getStatusMap(deviceId);
-        const sequence = this.accessory.context.device.sequence;
-        const fanBit = SmarteefiHelper.getSwitchMap(sequence);
+        const fanBit = SmarteefiHelper.getSwitchMap(this.device.sequence);
         const currentStatusmap = cached?.statusmap ?? 0;
         const currentSwitchmap = cached?.switchmap ?? 255;
         const newStatusmapOptimistic = currentStatusmap | fanBit; // set fan bit ON
@@ -173,103 +189,55 @@ export class FanAccessory extends BaseAccessory {
             }
         }
 
-        // 3. Update HomeKit characteristics immediately (instant UI update)
+        // Update HomeKit characteristics immediately (instant UI update)
         this.service?.updateCharacteristic(this.platform.Characteristic.RotationSpeed, requestedSpeedPercent);
         this.service?.updateCharacteristic(this.platform.Characteristic.Active, this.platform.Characteristic.Active.ACTIVE);
         this.platform.log.info(`[OPTIMISTIC] Updated HomeKit: Active=ON, Speed=${requestedSpeedPercent}%`);
-
-        // 4. Debounce API call (prevent flooding when user drags slider)
-        if (this.speedDebounceTimer) {
-            clearTimeout(this.speedDebounceTimer);
-        }
-
-        this.speedDebounceTimer = setTimeout(async () => {
-            try {
-                await apiHelper.setFanSpeed(
-                    deviceId, deviceIp, requestedSpeedPercent,
-                    (response) => {
-                        this.deviceStatus.markCommandComplete(deviceId);
-                        
-                        if (response && response.result === 'success') {
-                            // 5. API Success - confirm with API values if available
-                            this.platform.log.info(`✓ API confirmed fan speed for ${this.accessory.displayName}`);
-                            
-                            if (response.status !== undefined && response.value !== undefined) {
-                                const apiReportedSpeedValue = response.value;
-                                // Do NOT change ON/OFF based on setdimctl response.status; only update speedValue
-                                const cached2 = this.deviceStatus.getStatusMap(deviceId);
-                                const currentStatusmap2 = cached2?.statusmap ?? 0;
-                                const currentSwitchmap2 = cached2?.switchmap ?? 255;
-                                this.platform.log.debug(`[API_CONFIRM] Updating cache speed only: keep statusmap=${currentStatusmap2}, speed=${apiReportedSpeedValue}`);
-                                this.deviceStatus.setStatusMap(deviceId, currentSwitchmap2, currentStatusmap2, apiReportedSpeedValue);
-                                    this.deviceStatus.setPreservedSpeedValue(deviceId, apiReportedSpeedValue);
-                            }
-                        } else {
-                            // 6. API Failure - rollback state
-                            this.platform.log.warn(`✗ API failed to set fan speed for ${this.accessory.displayName}: ${response?.reason || 'Unknown error'}`);
-                            
-                            if (this.deviceStatus.rollbackState(deviceId)) {
-                                this.platform.log.info(`[ROLLBACK] Reverted speed for ${deviceId}`);
-                                
-                                // Rollback HomeKit characteristics
-                                const rolledBackStatus = this.deviceStatus.getStatusMap(deviceId);
-                                if (rolledBackStatus) {
-                                    const rolledBackSpeed = rolledBackStatus.speedValue ? 
-                                        SmarteefiHelper.valueToPercent(rolledBackStatus.speedValue) : 0;
-                                    this.service?.updateCharacteristic(this.platform.Characteristic.RotationSpeed, rolledBackSpeed);
-                                    
-                                    const rolledBackActive = rolledBackStatus.statusmap === 0 ? 
-                                        this.platform.Characteristic.Active.INACTIVE : 
-                                        this.platform.Characteristic.Active.ACTIVE;
-                                    this.service?.updateCharacteristic(this.platform.Characteristic.Active, rolledBackActive);
-                                }
-                            }
-                        }
-                    }
-                );
-            } catch (error) {
-                this.deviceStatus.markCommandComplete(deviceId);
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                this.platform.log.warn(`Exception setting fan speed for ${this.accessory.displayName}: ${errorMessage}`);
-                
-                // Rollback on exception
-                if (this.deviceStatus.rollbackState(deviceId)) {
-                    this.platform.log.info(`[ROLLBACK] Reverted speed after exception for ${deviceId}`);
-                    const rolledBackStatus = this.deviceStatus.getStatusMap(deviceId);
-                    if (rolledBackStatus) {
-                        const rolledBackSpeed = rolledBackStatus.speedValue ? 
-                            SmarteefiHelper.valueToPercent(rolledBackStatus.speedValue) : 0;
-                        this.service?.updateCharacteristic(this.platform.Characteristic.RotationSpeed, rolledBackSpeed);
-                    }
-                }
-                // Don't throw - optimistic update already happened
-            }
-        }, 300); // 300ms debounce delay
     }
 
     async setONOFFState(value: CharacteristicValue): Promise<void> {
         const targetStateHK = value as number; // Active characteristic value is number (0 or 1)
         const targetState = targetStateHK === this.platform.Characteristic.Active.ACTIVE ? 'ON' : 'OFF';
 
-        const deviceId = this.accessory.context.device.id;
-        this.platform.log.info(`SET Active request for ${this.accessory.displayName} to ${targetState}`);
+        const deviceId = this.device.id;
+        this.platform.log.info(`SET Active request for ${this.name} to ${targetState}`);
 
-        const apiHelper = this.platform.apiHelper;
-        if (!apiHelper || !this.accessory.context?.device) { 
-            this.platform.log.error('API Helper or context missing');
-            throw new Error("API Helper or context missing"); 
-        }
+        const apiHelper = this.apiHelper;
+        const deviceIp = this.device.ip;
+        const sequence = this.device.sequence;
 
-        const deviceIp = this.accessory.context.device.ip;
-        const sequence = this.accessory.context.device.sequence;
-        const fanBit = SmarteefiHelper.getSwitchMap(sequence);
+        // OPTIMISTIC UPDATE PATTERN, through the command pipeline: runCommand snapshots the state for rollback,
+        // then the cache and HomeKit show the new state before the command is sent
+        const inputStatusmapForHelper = targetState === 'ON' ? 1 : 0;
+        const switchmap = SmarteefiHelper.getSwitchMap(sequence);
 
-        // OPTIMISTIC UPDATE PATTERN:
-        // 1. Save current state for potential rollback
-        this.deviceStatus.saveRollbackState(deviceId);
-        this.deviceStatus.markCommandInProgress(deviceId);
+        await this.runCommand({
+            action: `switch fan ${targetState}`,
+            rollback: true,
+            optimistic: () => this.showActive(targetStateHK),
+            send: () => apiHelper.setSwitchStatus(deviceId, deviceIp, switchmap, inputStatusmapForHelper, true,
+                targetState === 'ON' ? this.platform.autoOffSeconds(this.accessory, this.device) : 0),
+            onSuccess: () => {
+                // API Success - keep optimistic state
+                // If turning ON, proactively set the preserved speed on the regulator
+                if (targetState === 'ON') {
+                    this.restoreSpeedAfterOn();
+                }
+            },
+            // API Failure - show the restored state
+            onFailure: () => this.showCachedState(),
+        });
+    }
+
+    /**
+     * Optimistic part of setONOFFState: remembers the speed to restore, then switches the fan in the cache and in HomeKit.
+     */
+    private showActive(targetStateHK: number) {
+        const targetState = targetStateHK === this.platform.Characteristic.Active.ACTIVE ? 'ON' : 'OFF';
+        const deviceId = this.device.id;
+        const fanBit = SmarteefiHelper.getSwitchMap(this.device.sequence);
 
-        // 2. Calculate target state values
+        // Calculate target state values
         const cachedStatus = this.deviceStatus.getStatusMap(deviceId);
         const currentStatusmap = cachedStatus?.statusmap ?? 0;
         const currentSwitchmap = cachedStatus?.switchmap ?? 255;
@@ -295,10 +263,10 @@ export class FanAccessory extends BaseAccessory {
             speedToStore = undefined as unknown as number; // sentinel to avoid writing speed now
             this.deviceStatus.setPreservedSpeedValue(deviceId, restore);
             this.deviceStatus.setPreservedAtOff(deviceId, null); // consume snapshot
-            this.platform.log.info(`[ON] Restoring speed: ${restore} (${SmarteefiHelper.valueToPercent(restore)}%)`);
+            this.platform.log.info(`[ON] Restoring speed: ${restore} (${SmarteefiHelper.valueToPercent(restore, this.fanProfile)}%)`);
         }
 
-        // 3. Update cache immediately (optimistic)
+        // Update cache immediately (optimistic)
         if (targetState === 'ON') {
             this.platform.log.info(`[OPTIMISTIC] Updating cache for ${deviceId}: statusmap=${newStatusmap} (speed pending)`);
             // Do not change speedValue yet
@@ -308,90 +276,58 @@ export class FanAccessory extends BaseAccessory {
             this.deviceStatus.setStatusMap(deviceId, currentSwitchmap, newStatusmap, 0);
         }
 
-        // 4. Update HomeKit characteristics immediately (instant UI update)
+        // Update HomeKit characteristics immediately (instant UI update)
         this.service?.updateCharacteristic(this.platform.Characteristic.Active, targetStateHK);
         if (targetState === 'OFF') {
             // Ensure UI shows 0% on OFF
             this.service?.updateCharacteristic(this.platform.Characteristic.RotationSpeed, 0);
             this.platform.log.info(`[OPTIMISTIC] Updated RotationSpeed to 0% on OFF`);
         }
+    }
 
-        // 5. Call API in background
-        const inputStatusmapForHelper = targetState === 'ON' ? 1 : 0;
-        const switchmap = SmarteefiHelper.getSwitchMap(sequence);
-
-        try {
-            await apiHelper.setSwitchStatus(
-                deviceId, deviceIp, switchmap, inputStatusmapForHelper, true,
-                (response) => {
-                    this.deviceStatus.markCommandComplete(deviceId);
-                    
-                    if (response && response.result === 'success') {
-                        // 6. API Success - keep optimistic state
-                        this.platform.log.info(`✓ API confirmed fan ${targetState} for ${this.accessory.displayName}`);
-                        // If turning ON, proactively set the preserved speed on the regulator
-                        if (targetState === 'ON') {
-                            const restoreVal = this.deviceStatus.getPreservedSpeedValue(deviceId);
-                            const desiredPercent = restoreVal && restoreVal > 0 ? SmarteefiHelper.valueToPercent(restoreVal) : 25;
-                            this.platform.log.info(`[FOLLOW-UP] Setting preserved fan speed to ${desiredPercent}% after ON for ${this.accessory.displayName}`);
-                            // Fire-and-forget; we already optimistically updated cache/UI
-                            apiHelper.setFanSpeed(deviceId, deviceIp, desiredPercent, (_rsp) => {
-                                // Optionally reconcile cache with API response value
-                                if (_rsp && _rsp.result === 'success' && _rsp.value !== undefined) {
-                                    const cached3 = this.deviceStatus.getStatusMap(deviceId);
-                                    const currentStatusmap3 = cached3?.statusmap ?? 0;
-                                    const currentSwitchmap3 = cached3?.switchmap ?? 255;
-                                    // Now apply active speed in cache and update HK RotationSpeed
-                                    this.deviceStatus.setStatusMap(deviceId, currentSwitchmap3, currentStatusmap3, _rsp.value);
-                                    this.deviceStatus.setPreservedSpeedValue(deviceId, _rsp.value);
-                                    this.platform.log.debug(`[FOLLOW-UP] Confirmed preserved speed applied: value=${_rsp.value}`);
-                                    const appliedPercent = SmarteefiHelper.valueToPercent(_rsp.value);
-                                    this.service?.updateCharacteristic(this.platform.Characteristic.RotationSpeed, appliedPercent);
-                                    this.platform.log.info(`[APPLIED] Updated RotationSpeed to ${appliedPercent}% after ON`);
-                                }
-                            });
-                        }
-                    } else {
-                        // 7. API Failure - rollback state
-                        this.platform.log.warn(`✗ API failed to set fan ${targetState} for ${this.accessory.displayName}: ${response?.reason || 'Unknown error'}`);
-                        
-                        if (this.deviceStatus.rollbackState(deviceId)) {
-                            this.platform.log.info(`[ROLLBACK] Reverted state for ${deviceId}`);
-                            
-                            // Rollback HomeKit characteristics
-                            const rolledBackStatus = this.deviceStatus.getStatusMap(deviceId);
-                            if (rolledBackStatus) {
-                                const rolledBackActive = rolledBackStatus.statusmap === 0 ? 
-                                    this.platform.Characteristic.Active.INACTIVE : 
-                                    this.platform.Characteristic.Active.ACTIVE;
-                                this.service?.updateCharacteristic(this.platform.Characteristic.Active, rolledBackActive);
-                                
-                                if (rolledBackStatus.speedValue) {
-                                    const rolledBackSpeed = SmarteefiHelper.valueToPercent(rolledBackStatus.speedValue);
-                                    this.service?.updateCharacteristic(this.platform.Characteristic.RotationSpeed, rolledBackSpeed);
-                                }
-                            }
-                        }
-                    }
+    /**
+     * Sets the regulator to the speed remembered at OFF. Fire-and-forget; cache and UI were already updated.
+     */
+    private restoreSpeedAfterOn() {
+        const deviceId = this.device.id;
+        const restoreVal = this.deviceStatus.getPreservedSpeedValue(deviceId);
+        const desiredPercent = restoreVal && restoreVal > 0 ? SmarteefiHelper.valueToPercent(restoreVal, this.fanProfile) : this.fanProfile.valueToPercent(1);
+        this.platform.log.info(`[FOLLOW-UP] Setting preserved fan speed to ${desiredPercent}% after ON for ${this.name}`);
+        this.runCommand({
+            action: `restore speed to ${desiredPercent}%`,
+            send: () => this.apiHelper.setFanSpeed(deviceId, this.device.ip, desiredPercent),
+            onSuccess: (rsp) => {
+                // Reconcile cache with API response value
+                if (rsp.value !== undefined) {
+                    const cached3 = this.deviceStatus.getStatusMap(deviceId);
+                    const currentStatusmap3 = cached3?.statusmap ?? 0;
+                    const currentSwitchmap3 = cached3?.switchmap ?? 255;
+                    // Now apply active speed in cache and update HK RotationSpeed
+                    this.deviceStatus.setStatusMap(deviceId, currentSwitchmap3, currentStatusmap3, rsp.value);
+                    this.deviceStatus.setPreservedSpeedValue(deviceId, rsp.value);
+                    const appliedPercent = SmarteefiHelper.valueToPercent(rsp.value, this.fanProfile);
+                    this.service?.updateCharacteristic(this.platform.Characteristic.RotationSpeed, appliedPercent);
+                    this.platform.log.info(`[APPLIED] Updated RotationSpeed to ${appliedPercent}% after ON`);
                 }
-            );
-        } catch (error) {
-            this.deviceStatus.markCommandComplete(deviceId);
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            this.platform.log.warn(`Exception setting fan ${targetState} for ${this.accessory.displayName}: ${errorMessage}`);
-            
-            // Rollback on exception
-            if (this.deviceStatus.rollbackState(deviceId)) {
-                this.platform.log.info(`[ROLLBACK] Reverted state after exception for ${deviceId}`);
-                const rolledBackStatus = this.deviceStatus.getStatusMap(deviceId);
-                if (rolledBackStatus) {
-                    const rolledBackActive = rolledBackStatus.statusmap === 0 ? 
-                        this.platform.Characteristic.Active.INACTIVE : 
-                        this.platform.Characteristic.Active.ACTIVE;
-                    this.service?.updateCharacteristic(this.platform.Characteristic.Active, rolledBackActive);
-                }
-            }
-            // Don't throw - optimistic update already happened
+            },
+        }).catch(() => { /* logged by runCommand; the fan is on, only the speed is off */ });
+    }
+
+    /**
+     * Shows the cached state in HomeKit, e.g. once runCommand has rolled back a failed command.
+     */
+    private showCachedState() {
+        const deviceId = this.device.id;
+        const rolledBackStatus = this.deviceStatus.getStatusMap(deviceId);
+        if (rolledBackStatus) {
+            const rolledBackSpeed = rolledBackStatus.speedValue ?
+                SmarteefiHelper.valueToPercent(rolledBackStatus.speedValue, this.fanProfile) : 0;
+            this.service?.updateCharacteristic(this.platform.Characteristic.RotationSpeed, rolledBackSpeed);
+
+            const rolledBackActive = rolledBackStatus.statusmap === 0 ?
+                this.platform.Characteristic.Active.INACTIVE :
+                this.platform.Characteristic.Active.ACTIVE;
+            this.service?.updateCharacteristic(this.platform.Characteristic.Active, rolledBackActive);
         }
     }
 } // End Class FanAccessory
\ No newline at end of file
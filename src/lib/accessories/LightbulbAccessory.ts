@@ -0,0 +1,89 @@
+import { PlatformAccessory, CharacteristicValue } from 'homebridge';
+import { SmarteefiPlatform } from '../../platform';
+import * as SmarteefiHelper from '../SmarteefiHelper';
+import { SLIDER_DEBOUNCE, STRINGS } from '../../constants';
+import { BaseAccessory } from './BaseAccessory';
+import { Device } from '../Config';
+
+/**
+ * A dimmer gang: On/Off through setstatus like a switch, Brightness through dim control.
+ */
+export class LightbulbAccessory extends BaseAccessory {
+
+    constructor(
+        platform: SmarteefiPlatform,
+        accessory: PlatformAccessory,
+        gang?: Device,
+    ) {
+        super(platform, accessory, gang);
+
+        this.setModel(STRINGS.DIMMER);
+
+        this.removeStaleServices(this.platform.Service.Lightbulb);
+
+        this.service = this.getGangService(this.platform.Service.Lightbulb);
+
+        this.setupButtonService();
+        this.setupAutoOff();
+
+        this.service.getCharacteristic(this.platform.Characteristic.On)
+            .onSet(this.setOn.bind(this))
+            .onGet(this.getOn.bind(this));
+
+        // Snap the slider to the dimmer's brightness levels
+        const levels = this.apiHelper.getDimmerLevels(this.device.id);
+        this.service.getCharacteristic(this.platform.Characteristic.Brightness)
+            .setProps({ minValue: 0, maxValue: 100, minStep: Math.max(1, Math.floor(100 / levels)) })
+            .onSet(this.setBrightness.bind(this))
+            .onGet(this.getBrightness.bind(this));
+    }
+
+    async setOn(value: CharacteristicValue): Promise<void> {
+        const targetState = value as boolean;
+        this.platform.log.info(`SET On request for ${this.name} to ${targetState}`);
+        await this.setGangOn(targetState, (isOn) => this.service?.updateCharacteristic(this.platform.Characteristic.On, isOn));
+    }
+
+    async setBrightness(value: CharacteristicValue): Promise<void> {
+        const brightnessPercent = value as number;
+        const device = this.device;
+        this.platform.log.info(`SET Brightness request for ${this.name} to ${brightnessPercent}%`);
+
+        // HomeKit sends On=false along with 0%, so there is nothing to dim
+        if (brightnessPercent <= 0) {
+            return;
+        }
+
+        // Only the level the slider comes to rest on is sent
+        await this.runCommand({
+            action: `set brightness to ${brightnessPercent}%`,
+            debounceKey: 'brightness',
+            debounceMs: SLIDER_DEBOUNCE,
+            send: () => this.apiHelper.setBrightness(device.id, device.ip, device.sequence, brightnessPercent),
+            onSuccess: (response) => {
+                const level = response.value ?? SmarteefiHelper.percentToLevel(brightnessPercent, this.apiHelper.getDimmerLevels(device.id));
+                this.deviceStatus.setBrightnessLevel(device.id, device.sequence, level);
+                this.platform.log.debug(`Brightness of ${this.name} is now level ${level}.`);
+            },
+        });
+    }
+
+    async getOn(): Promise<CharacteristicValue> {
+        this.assertOnline('On');
+        const device = this.device;
+        const statusmap = this.deviceStatus.getStatusMap(device.id)?.statusmap ?? 0;
+        const isOn = SmarteefiHelper.isGangOn(statusmap, device);
+        this.platform.log.debug(`GET On for ${this.name}: State=${isOn}`);
+        return isOn;
+    }
+
+    async getBrightness(): Promise<CharacteristicValue> {
+        this.assertOnline('Brightness');
+        const device = this.device;
+        const level = this.deviceStatus.getBrightnessLevel(device.id, device.sequence);
+        // Until a level is known, report full brightness rather than a misleading 0%
+        const brightness = level ? SmarteefiHelper.levelToPercent(level, this.apiHelper.getDimmerLevels(device.id)) : 100;
+        this.platform.log.debug(`GET Brightness for ${this.name}: ${brightness}% (level=${level})`);
+        return brightness;
+    }
+}
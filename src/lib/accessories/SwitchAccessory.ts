@@ -1,47 +1,58 @@
 import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
 import { SmarteefiPlatform } from '../../platform';
-// Import Config only if needed for the apiHelper instantiation type
-// If apiHelper is taken from platform, Config might not be needed here.
-import { Config, DeviceStatus } from '../Config';
-import { SmarteefiAPIHelper } from '../SmarteefiAPIHelper';
+import { Device, DeviceStatus } from '../Config';
 import * as SmarteefiHelper from '../SmarteefiHelper';
 import { STRINGS } from '../../constants';
 import { BaseAccessory } from './BaseAccessory';
 
 export class SwitchAccessory extends BaseAccessory {
+    private isValve = false; // Valves use Active/InUse instead of On
 
     // This seems unused and potentially incorrect logic for state tracking
     // private switchStates = {
     //     On: this.platform.Characteristic.Active.INACTIVE
     // };
 
-    // It's generally better practice for accessories to use the shared API helper
-    // instance from the platform instead of creating their own.
-    // Remove this line if platform.apiHelper is available and used.
-    // private apiHelper: SmarteefiAPIHelper; // Removed instance variable
-
     constructor(
         platform: SmarteefiPlatform,
         accessory: PlatformAccessory,
+        gang?: Device,
     ) {
-        super(platform, accessory);
+        super(platform, accessory, gang);
 
-        // ** REMOVED: Don't create a separate API Helper instance here **
-        // Use the one from the platform: this.platform.apiHelper
-        // this.apiHelper = SmarteefiAPIHelper.Instance(new Config(platform.config.userid, platform.config.password, platform.config.devices, platform.config.local), platform.log);
+        this.setModel(STRINGS.SWITCH);
 
-        if (this.accessoryService) {
-            this.accessoryService.setCharacteristic(this.platform.Characteristic.Model, STRINGS.SWITCH);
-        }
+        // Plain on/off gang exposed as Switch, Outlet, Lightbulb, Fan or Valve (see `gangs` in config)
+        const gangType = SmarteefiHelper.getGangType(this.device);
+        const serviceType = this.platform.serviceFor(gangType);
+        this.isValve = gangType === 'valve';
+        this.removeStaleServices(serviceType);
 
-        // Ensure Switch service exists or create it
-        this.service = this.accessory.getService(this.platform.Service.Switch)
-            || this.accessory.addService(this.platform.Service.Switch, this.accessory.displayName);
+        // Ensure the service exists or create it
+        this.service = this.getGangService(serviceType);
 
-        // Register handlers for the On/Off Characteristic
-        this.service.getCharacteristic(this.platform.Characteristic.On)
-            .onSet(this.setOn.bind(this))
-            .onGet(this.getOn.bind(this));
+        this.setupButtonService();
+        this.setupAutoOff();
+
+        // A light that used to be a dimmer keeps its cached Brightness characteristic otherwise
+        if (gangType === 'lightbulb' && this.service.testCharacteristic(this.platform.Characteristic.Brightness)) {
+            this.service.removeCharacteristic(this.service.getCharacteristic(this.platform.Characteristic.Brightness));
+        }
+
+        if (this.isValve) {
+            // Valves switch with Active and report InUse; there is no On characteristic
+            this.service.setCharacteristic(this.platform.Characteristic.ValveType, this.platform.Characteristic.ValveType.GENERIC_VALVE);
+            this.service.getCharacteristic(this.platform.Characteristic.Active)
+                .onSet(this.setOn.bind(this))
+                .onGet(this.getOn.bind(this));
+            this.service.getCharacteristic(this.platform.Characteristic.InUse)
+                .onGet(this.getOn.bind(this));
+        } else {
+            // Register handlers for the On/Off Characteristic
+            this.service.getCharacteristic(this.platform.Characteristic.On)
+                .onSet(this.setOn.bind(this))
+                .onGet(this.getOn.bind(this));
+        }
     }
 
     /**
@@ -49,53 +60,23 @@ export class SwitchAccessory extends BaseAccessory {
      * These are sent when the user changes the state of an accessory characteristic
      */
     async setOn(value: CharacteristicValue): Promise<void> { // Use async/await and return Promise<void>
-        const targetState = value as boolean; // On characteristic uses boolean true/false
-        this.platform.log.info(`SET On request for ${this.accessory.displayName} to ${targetState}`);
-
-        // Use the shared API helper from the platform instance
-        const apiHelper = this.platform.apiHelper;
-        if (!apiHelper) {
-            this.platform.log.error(`API Helper not available for ${this.accessory.displayName}. Cannot set state.`);
-            throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
-        }
+        // On characteristic uses boolean true/false, a valve's Active uses 0/1
+        const targetState = this.isValve ? value === this.platform.Characteristic.Active.ACTIVE : value as boolean;
+        this.platform.log.info(`SET On request for ${this.name} to ${targetState}`);
 
-        const switchmap = SmarteefiHelper.getSwitchMap(this.accessory.context.device.sequence);
-        // For regular switches, statusmap directly represents the state (0=off, 1=on - usually matches switchmap bit)
-        // If targetState is true (ON), set the corresponding bit in statusmap.
-        // If targetState is false (OFF), clear the corresponding bit.
-        // We send the bitmask representing *just this switch* for both switchmap and statusmap.
-        const apiStatusmap = targetState ? switchmap : 0;
-
-        try {
-            await apiHelper.setSwitchStatus(
-                this.accessory.context.device.id,
-                this.accessory.context.device.ip,
-                switchmap,      // Identifies the switch
-                apiStatusmap,   // Represents the target state for this switch (0 or its own bit value)
-                false,          // isFan = false for SwitchAccessory
-                (response) => { // API Callback (primarily for logging)
-                    if (response && response.result === 'success') {
-                        this.platform.log.info(`API call to set ${this.accessory.displayName} to ${targetState ? 'ON' : 'OFF'} successful.`);
-                        // ** FIX: Call refreshStatus correctly using setImmediate **
-                        // Use an arrow function to preserve 'this' context for this.platform
-                        setImmediate(() => {
-                            this.platform.log.debug(`Scheduling immediate status refresh after setting ${this.accessory.displayName}`);
-                            this.platform.refreshStatus(); // Call without arguments
-                        });
-                    } else {
-                        this.platform.log.error(`API call failed to set ${this.accessory.displayName}: ${response?.reason || 'Unknown error'}`);
-                        // Should we throw here inside callback? Better to throw after await below.
-                    }
-                }
-            );
-            // If await finishes without throwing, operation succeeded from HomeKit's perspective
-             this.platform.log.debug(`setSwitchStatus promise resolved for ${this.accessory.displayName}`);
-
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            this.platform.log.error(`Error setting state for ${this.accessory.displayName}: ${errorMessage}`);
-            // Rethrow HAP error to inform HomeKit of failure
-            throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+        await this.setGangOn(targetState, this.pushState.bind(this));
+    }
+
+    /**
+     * Shows an on/off state in HomeKit (On, or a valve's Active and InUse).
+     */
+    private pushState(isOn: boolean) {
+        if (this.isValve) {
+            const active = isOn ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE;
+            this.service?.updateCharacteristic(this.platform.Characteristic.Active, active);
+            this.service?.updateCharacteristic(this.platform.Characteristic.InUse, active);
+        } else {
+            this.service?.updateCharacteristic(this.platform.Characteristic.On, isOn);
         }
     }
 
@@ -111,25 +92,24 @@ export class SwitchAccessory extends BaseAccessory {
              throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
 
-        const deviceId = this.accessory.context.device.id;
-        const sequence = this.accessory.context.device.sequence;
+        const deviceId = this.device.id;
+        const sequence = this.device.sequence;
 
         // Get the latest known statusmap for the whole device
         const currentDeviceStatus = deviceStatus.getStatusMap(deviceId);
         const statusmap = currentDeviceStatus?.statusmap ?? 0; // Default to 0 if not found
 
-        this.platform.log.debug(`GET On for ${this.accessory.displayName}: DeviceId=${deviceId}, Sequence=${sequence}, FullStatusMap=${statusmap}`);
+        this.platform.log.debug(`GET On for ${this.name}: DeviceId=${deviceId}, Sequence=${sequence}, FullStatusMap=${statusmap}`);
 
-        if (statusmap === -1) { // Check if status indicates a previous error
-            this.platform.log.warn(`GET On for ${this.accessory.displayName}: Status is marked as errored (-1).`);
-            throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
-        }
+        this.assertOnline('On');
 
-        // Check if the specific bit for this switch is set in the statusmap
-        const switchmapBit = SmarteefiHelper.getSwitchMap(sequence); // Get the bit for this switch
-        const isOn = (statusmap & switchmapBit) !== 0;
+        // Check if the specific bit for this switch is set in the statusmap (flipped for inverted gangs)
+        const isOn = SmarteefiHelper.isGangOn(statusmap, this.device);
 
-        this.platform.log.info(`GET On for ${this.accessory.displayName}: State=${isOn}`);
+        this.platform.log.info(`GET On for ${this.name}: State=${isOn}`);
+        if (this.isValve) {
+            return isOn ? this.platform.Characteristic.Active.ACTIVE : this.platform.Characteristic.Active.INACTIVE;
+        }
         return isOn; // Return boolean true/false for On characteristic
     }
 }
\ No newline at end of file
@@ -10,20 +10,21 @@ import {
   CharacteristicValue
 } from 'homebridge';
 
-import { Config, Device, DeviceStatus } from './lib/Config';
+import { Config, DEVICE_SETTINGS, DEVICE_SETTING_NAMES, Device, DeviceSetting, DeviceStatus, GangType } from './lib/Config';
 import { SmarteefiAPIHelper } from './lib/SmarteefiAPIHelper';
 import { SwitchAccessory } from './lib/accessories/SwitchAccessory';
 import { FanAccessory } from './lib/accessories/FanAccessory';
-import { PLATFORM_NAME, PLUGIN_NAME } from './constants';
+import { LightbulbAccessory } from './lib/accessories/LightbulbAccessory';
+import { DeviceSettingsAccessory } from './lib/accessories/DeviceSettingsAccessory';
+import { GangService } from './lib/accessories/BaseAccessory';
+import { SmarteefiDiscovery } from './lib/SmarteefiDiscovery';
+import { StatusPoller } from './lib/StatusPoller';
+import { PollSchedule } from './lib/PollSchedule';
+import { DeviceStatusStore } from './lib/DeviceStatusStore';
+import { AutoOffScheduler } from './lib/AutoOffScheduler';
+import { PLATFORM_NAME, PLUGIN_NAME, LAN_DISCOVERY_TIMEOUT, OFFLINE_FAILURE_THRESHOLD, DIMMER_LEVELS, STRINGS, COMMAND_ECHO_WINDOW, SETTINGS_REFRESH_INTERVAL, AUTO_OFF_RETRY_DELAY, DISCOVERY_RETRY_DELAY } from './constants';
 import * as SmarteefiHelper from './lib/SmarteefiHelper';
-
-interface DeviceConfigEntry {
-  device: string;
-  name?: string;
-  ip?: string;
-  isFan?: boolean;
-}
-
+import { SmarteefiApiError, SmarteefiDeviceOfflineError, SmarteefiUnsupportedError } from './lib/SmarteefiErrors';
 
 export class SmarteefiPlatform implements DynamicPlatformPlugin {
 public readonly Service: typeof Service = this.api.hap.Service;
@@ -35,8 +36,22 @@ public readonly apiHelper!: SmarteefiAPIHelper;
 private refreshDelay = 60000;
 private commandGracePeriod = 3000; // Default 3 seconds grace period after commands
 private deviceStatus: DeviceStatus = DeviceStatus.Instance();
+private knownDeviceIds: string[] = []; // Serials returned by the last fetchDevices (or configured/cached ones if it failed), polled on refresh
+private discoveryRetryTimer: NodeJS.Timeout | null = null; // Next fetchDevices attempt after a failed one
+private removeOrphanedAccessories = true;
+private orphanGracePeriod = 0; // ms an accessory may be missing from discovery before it is removed
 private refreshInterval: NodeJS.Timeout | null = null;
 private platformReady = false;
+private groupGangs = false; // One accessory per device with a service per gang, instead of one accessory per gang
+private settingsHosts = new Map<string, number>(); // Serial -> sequence of the gang whose accessory carries the setting switches
+private lanDiscovery = true;
+private lanDiscoveryInterval = 300000; // Re-scan the LAN every 5 minutes to follow DHCP changes
+private discovery: SmarteefiDiscovery | null = null;
+private discoveryInterval: NodeJS.Timeout | null = null;
+private pollSchedule: PollSchedule;
+private statusStore: DeviceStatusStore;
+public readonly autoOff = new AutoOffScheduler((deviceId, sequence) => this.autoOffDue(deviceId, sequence), this.deviceStatus);
+private statusPoller = new StatusPoller(this.log, () => this.knownDeviceIds.filter(id => this.pollSchedule.isDue(id)), (deviceId) => this.refreshDevice(this.apiHelper, deviceId));
 
 
 constructor(
@@ -50,12 +65,8 @@ constructor(
     this.log.error("CRITICAL: Missing 'userid' or 'password' in Homebridge config.json. Smarteefi plugin will not function.");
   } else {
     try {
-      const parsedConfig = new Config(
-          this.config.userid as string,
-          this.config.password as string,
-          this.config.devices as object[],
-          !!this.config.local
-      );
+      const parsedConfig = Config.fromPlatformConfig(this.config);
+      parsedConfig.warnings.forEach(warning => this.log.warn(warning));
       this.apiHelper = SmarteefiAPIHelper.Instance(parsedConfig, this.log);
     } catch (error) {
          const msg = error instanceof Error ? error.message : String(error);
@@ -63,8 +74,18 @@ constructor(
     }
   }
 
+  // Restore the last known state before Homebridge hands us the cached accessories
+  this.statusStore = new DeviceStatusStore(this.log, this.api.user.storagePath(), this.deviceStatus);
+  this.statusStore.load();
+
   this.refreshDelay = this.config.refreshDelay || 60000;
+  this.pollSchedule = new PollSchedule(this.refreshDelay, this.config.adaptivePolling !== false);
   this.commandGracePeriod = this.config.commandGracePeriod || 3000;
+  this.removeOrphanedAccessories = this.config.removeOrphanedAccessories !== false;
+  this.orphanGracePeriod = Math.max(0, Number(this.config.orphanGracePeriod) || 0) * 3600000;
+  this.groupGangs = this.config.groupGangs === true;
+  this.lanDiscovery = this.config.lanDiscovery !== false;
+  this.lanDiscoveryInterval = this.config.lanDiscoveryInterval ?? 300000;
 
   this.api.on('didFinishLaunching', () => {
     this.log.debug('Executed didFinishLaunching callback');
@@ -75,11 +96,46 @@ constructor(
     }
     this.discoverDevices();
   });
+
+  this.api.on('shutdown', () => this.shutdown());
 }
 
 configureAccessory(accessory: PlatformAccessory) {
   this.log.info('Loading accessory from cache:', accessory.displayName);
   this.accessories.push(accessory);
+  this.applySavedState(accessory);
+}
+
+/**
+ * Shows the restored state of a cached accessory until the first refresh confirms it.
+ */
+applySavedState(accessory: PlatformAccessory) {
+  for (const device of this.gangsOf(accessory)) {
+      const status = device?.id ? this.deviceStatus.getStatusMap(device.id) : undefined;
+      if (!status || typeof device.sequence !== 'number') {
+          continue;
+      }
+      const service = this.getDeviceService(accessory, device);
+      if (device.isFan) {
+          const profile = this.apiHelper?.getFanProfile(device.id);
+          const speedPercent = status.speedValue && status.speedValue > 0 ? SmarteefiHelper.valueToPercent(status.speedValue, profile) : 0;
+          service?.updateCharacteristic(this.Characteristic.Active, speedPercent > 0 ? this.Characteristic.Active.ACTIVE : this.Characteristic.Active.INACTIVE);
+          service?.updateCharacteristic(this.Characteristic.RotationSpeed, speedPercent);
+      } else {
+          const isOn = SmarteefiHelper.isGangOn(status.statusmap, device);
+          if (SmarteefiHelper.getGangType(device) === 'valve') {
+              service?.updateCharacteristic(this.Characteristic.Active, isOn ? this.Characteristic.Active.ACTIVE : this.Characteristic.Active.INACTIVE);
+              service?.updateCharacteristic(this.Characteristic.InUse, isOn ? this.Characteristic.InUse.IN_USE : this.Characteristic.InUse.NOT_IN_USE);
+          } else {
+              service?.updateCharacteristic(this.Characteristic.On, isOn);
+          }
+          const level = status.brightness[device.sequence];
+          if (device.isDimmer && level) {
+              service?.updateCharacteristic(this.Characteristic.Brightness, SmarteefiHelper.levelToPercent(level, this.apiHelper?.getDimmerLevels(device.id) ?? DIMMER_LEVELS));
+          }
+      }
+      this.log.debug(`Applied saved state to ${device.name} (statusmap=${status.statusmap}, speed=${status.speedValue}).`);
+  }
 }
 
 discoverDevices() {
@@ -88,36 +144,67 @@ discoverDevices() {
       return;
    }
    // ** FIX 1: Check the platform's config directly **
-   if (!this.config.devices || this.config.devices.length === 0) {
-      return this.log.error("No devices configured in config.json. Cannot start discovery.");
+   if ((!this.config.devices || this.config.devices.length === 0) && !this.config.importAllDevices) {
+      return this.log.error("No devices configured in config.json and 'importAllDevices' is off. Cannot start discovery.");
    }
 
+  // LAN discovery only matters when commands can go over UDP
+  if (this.lanDiscovery && this.apiHelper.getControlMode() !== 'cloud') {
+      this.discovery = new SmarteefiDiscovery(this.log);
+      this.discovery.on('deviceFound', (serial: string, ip: string) => this.updateAccessoryAddress(serial, ip));
+      this.discovery.on('addressChanged', (serial: string, _oldIp: string, ip: string) => this.updateAccessoryAddress(serial, ip));
+      this.log.info('Scanning the LAN for Smarteefi devices (experimental)...');
+      this.discovery.discover(LAN_DISCOVERY_TIMEOUT).then((addresses) => {
+          this.apiHelper.updateDeviceAddresses(addresses);
+          this.fetchAndRegisterDevices();
+          this.setupPeriodicDiscovery();
+      });
+  } else {
+      this.fetchAndRegisterDevices();
+  }
+}
+
+async fetchAndRegisterDevices() {
   this.log.info('Starting discovery process using SmarteefiAPIHelper...');
 
-  this.apiHelper.login(async (token) => {
-      if (!token) {
-          this.log.error("Initial login failed. Cannot discover devices.");
-          return;
-      }
-      this.log.info("Login successful, fetching devices from API Helper...");
-      try {
-           // ** FIX 3: Ensure call only passes the callback **
-           this.apiHelper.fetchDevices((devices: Device[]) => {
-               this.log.info(`Discovered ${devices.length} potential accessories from API.`);
-               this.registerDiscoveredDevices(devices);
-               this.refreshStatus(); // Perform one immediate refresh
-               this.setupPeriodicRefresh();
-           });
-      } catch (error) {
-          const msg = error instanceof Error ? error.message : String(error);
-          this.log.error(`Error during API Helper fetchDevices: ${msg}`);
-      }
-  });
+  try {
+      await this.apiHelper.login();
+  } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      this.log.warn(`Login abandoned, skipping device discovery: ${msg}`);
+      return;
+  }
+  this.log.info("Login successful, fetching devices from API Helper...");
+  try {
+      const devices = await this.apiHelper.fetchDevices();
+      this.log.info(`Discovered ${devices.length} potential accessories from API.`);
+      this.registerDiscoveredDevices(devices);
+  } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      this.log.error(`Error during API Helper fetchDevices: ${msg}. Retrying in ${DISCOVERY_RETRY_DELAY / 60000} minutes.`);
+      this.registerDiscoveredDevices([], false);
+      this.scheduleDiscoveryRetry();
+  }
+  this.refreshStatus('startup'); // Perform one immediate refresh
+  this.setupPeriodicRefresh();
 }
 
-registerDiscoveredDevices(devices: Device[]) {
+registerDiscoveredDevices(devices: Device[], discoverySucceeded = true) {
     const currentAccessoryUUIDs = new Set<string>();
+    // Without a device list keep polling what we know of, so cached accessories still follow (or lose) their devices
+    const deviceIds = discoverySucceeded ? devices.filter(device => device?.id).map(device => device.id) : this.getFallbackDeviceIds();
+    this.knownDeviceIds = Array.from(new Set(deviceIds));
+    // Device settings go on the accessory of the device's first exposed gang (the grouped accessory when grouped)
+    this.settingsHosts.clear();
     for (const device of devices) {
+        if (device?.id && typeof device.sequence === 'number' && device.sequence < (this.settingsHosts.get(device.id) ?? Infinity)) {
+            this.settingsHosts.set(device.id, device.sequence);
+        }
+    }
+    if (this.groupGangs) {
+        this.registerGroupedDevices(devices, currentAccessoryUUIDs);
+    }
+    for (const device of this.groupGangs ? [] : devices) {
         if (!device || !device.id || !device.name) {
             this.log.warn('Skipping invalid device data received from API helper.');
             continue;
@@ -128,26 +215,263 @@ registerDiscoveredDevices(devices: Device[]) {
 
         if (existingAccessory) {
             this.log.info('Updating existing accessory:', device.name);
+            // A `name` set under `gangs` (or a rename in the Smarteefi app)
+            const renamed = existingAccessory.displayName !== device.name;
+            if (renamed) {
+                this.log.info(`Renaming accessory ${existingAccessory.displayName} to ${device.name}`);
+                existingAccessory.updateDisplayName(device.name);
+            }
             existingAccessory.context.device = device;
+            delete existingAccessory.context.orphanedSince;
             this.api.updatePlatformAccessories([existingAccessory]);
             try {
-                if (device.isFan) new FanAccessory(this, existingAccessory);
-                else new SwitchAccessory(this, existingAccessory);
+                this.attachHandler(existingAccessory);
+                if (renamed) this.getDeviceService(existingAccessory)?.updateCharacteristic(this.Characteristic.Name, device.name);
             } catch (initError) { this.log.error(`Error updating handler for ${existingAccessory.displayName}: ${initError}`); }
         } else {
             this.log.info('Adding new accessory:', device.name);
             const accessory = new this.api.platformAccessory(device.name, uuid);
             accessory.context.device = device;
             try {
-                if (device.isFan) new FanAccessory(this, accessory);
-                else new SwitchAccessory(this, accessory);
+                this.attachHandler(accessory);
                 this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
                 this.accessories.push(accessory);
             } catch (initError) { this.log.error(`Error initializing handler for new accessory ${device.name}: ${initError}`); }
         }
     }
-    // Optional: Unregister orphaned accessories
-    // this.unregisterOrphanedAccessories(currentAccessoryUUIDs);
+
+    // Accessories of the other layout are replaced right away, whatever the orphan settings
+    if (discoverySucceeded) {
+        this.removeReplacedAccessories(devices);
+    }
+
+    // Never treat a failed or empty discovery as "every device was removed"
+    if (!discoverySucceeded) {
+        this.log.warn('Device discovery failed; skipping removal of cached accessories.');
+    } else if (devices.length === 0) {
+        this.log.warn('Device discovery returned no devices; skipping removal of cached accessories.');
+    } else {
+        this.unregisterOrphanedAccessories(currentAccessoryUUIDs, devices);
+    }
+
+    // Resume auto-off timers saved before a restart (and start ones for gangs already on)
+    this.knownDeviceIds.forEach(deviceId => this.syncAutoOff(deviceId));
+}
+
+/**
+ * Serials to poll when the device list couldn't be fetched: the configured devices and those of cached accessories.
+ */
+private getFallbackDeviceIds(): string[] {
+    const configured = ((this.config.devices as { device?: string }[]) || []).map(entry => entry?.device);
+    const cached = this.accessories.flatMap(acc => this.gangsOf(acc).map(gang => gang.id));
+    return [...configured, ...cached].filter((id): id is string => typeof id === 'string' && id.length > 0);
+}
+
+/**
+ * Fetches the device list again after DISCOVERY_RETRY_DELAY (until it succeeds).
+ */
+private scheduleDiscoveryRetry() {
+    if (this.discoveryRetryTimer) {
+        clearTimeout(this.discoveryRetryTimer);
+    }
+    this.discoveryRetryTimer = setTimeout(() => {
+        this.discoveryRetryTimer = null;
+        this.fetchAndRegisterDevices();
+    }, DISCOVERY_RETRY_DELAY);
+}
+
+/**
+ * Registers one accessory per device serial (`groupGangs`), carrying a service per gang under a ServiceLabel.
+ */
+private registerGroupedDevices(devices: Device[], currentAccessoryUUIDs: Set<string>) {
+    const gangsById = new Map<string, Device[]>();
+    for (const device of devices) {
+        if (!device || !device.id || !device.name || typeof device.sequence !== 'number') {
+            this.log.warn('Skipping invalid device data received from API helper.');
+            continue;
+        }
+        gangsById.set(device.id, [...(gangsById.get(device.id) ?? []), device]);
+    }
+
+    for (const [deviceId, gangs] of gangsById) {
+        const uuid = this.api.hap.uuid.generate(deviceId);
+        currentAccessoryUUIDs.add(uuid);
+        const name = this.getGroupName(deviceId);
+        let accessory = this.accessories.find(acc => acc.UUID === uuid);
+        const isNew = !accessory;
+
+        if (!accessory) {
+            this.log.info(`Adding new grouped accessory: ${name} (${gangs.length} gang(s))`);
+            accessory = new this.api.platformAccessory(name, uuid);
+        } else {
+            this.log.info(`Updating existing grouped accessory: ${name}`);
+            if (accessory.displayName !== name) {
+                this.log.info(`Renaming accessory ${accessory.displayName} to ${name}`);
+                accessory.updateDisplayName(name);
+            }
+        }
+        accessory.context.gangs = gangs;
+        delete accessory.context.device;
+        delete accessory.context.orphanedSince;
+
+        // Gangs are labelled 1, 2, 3... so HomeKit lists them in switchboard order
+        const label = accessory.getService(this.Service.ServiceLabel) || accessory.addService(this.Service.ServiceLabel);
+        label.setCharacteristic(this.Characteristic.ServiceLabelNamespace, this.Characteristic.ServiceLabelNamespace.ARABIC_NUMERALS);
+
+        // Drop services of gangs that were hidden or no longer exist
+        const subtypes = new Set(gangs.flatMap(gang => [SmarteefiHelper.getGangSubtype(gang.sequence), SmarteefiHelper.getButtonSubtype(gang.sequence)]));
+        DEVICE_SETTINGS.forEach(setting => subtypes.add(SmarteefiHelper.getSettingSubtype(setting))); // Managed by DeviceSettingsAccessory
+        for (const service of [...accessory.services]) {
+            if (service.subtype && !subtypes.has(service.subtype)) {
+                this.log.info(`Removing ${service.displayName} from ${name}: gang no longer discovered.`);
+                accessory.removeService(service);
+            }
+        }
+
+        for (const gang of gangs) {
+            try {
+                this.attachHandler(accessory, gang);
+            } catch (initError) { this.log.error(`Error initializing handler for ${gang.name} on ${name}: ${initError}`); }
+        }
+
+        if (isNew) {
+            this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+            this.accessories.push(accessory);
+        } else {
+            this.api.updatePlatformAccessories([accessory]);
+        }
+    }
+}
+
+/**
+ * Name of a grouped accessory: the device's `name` from config, or the brand and serial.
+ */
+private getGroupName(deviceId: string): string {
+    const entry = ((this.config.devices as { device?: string; name?: string }[]) || []).find(entry => entry?.device === deviceId);
+    return entry?.name?.trim() || `${STRINGS.BRAND} ${deviceId}`;
+}
+
+/**
+ * Creates the handler for a gang: on its own accessory, or on the device's grouped accessory.
+ */
+private attachHandler(accessory: PlatformAccessory, gang?: Device) {
+    const device: Device = gang ?? accessory.context.device;
+    // Keep the last known details if this discovery didn't include them
+    accessory.context.hardware = this.apiHelper.getHardwareInfo(device.id) ?? accessory.context.hardware;
+    if (device.isFan) new FanAccessory(this, accessory, gang);
+    else if (device.isDimmer) new LightbulbAccessory(this, accessory, gang);
+    else new SwitchAccessory(this, accessory, gang);
+    if (this.settingsHosts.get(device.id) === device.sequence) {
+        new DeviceSettingsAccessory(this, accessory, gang);
+    } else if (!gang) {
+        this.removeSettingServices(accessory);
+    }
+}
+
+/**
+ * Removes setting switches from a per-gang accessory that no longer carries its device's settings.
+ */
+private removeSettingServices(accessory: PlatformAccessory) {
+    for (const [setting, service] of this.settingServicesOf(accessory)) {
+        this.log.info(`Removing ${DEVICE_SETTING_NAMES[setting]} switch from ${accessory.displayName}: the settings moved to another gang.`);
+        accessory.removeService(service);
+    }
+}
+
+/**
+ * Unregisters cached accessories of the layout not in use for the returned devices: per-gang accessories
+ * after `groupGangs` is turned on, grouped ones after it is turned off.
+ */
+private removeReplacedAccessories(devices: Device[]) {
+    const returnedDeviceIds = new Set(devices.map(device => device.id));
+    const replaced = this.accessories.filter(acc => {
+        const isGrouped = Array.isArray(acc.context?.gangs);
+        return isGrouped !== this.groupGangs && returnedDeviceIds.has(this.gangsOf(acc)[0]?.id);
+    });
+    if (replaced.length === 0) {
+        return;
+    }
+    for (const accessory of replaced) {
+        this.log.info(`Removing ${accessory.displayName}: replaced by the ${this.groupGangs ? 'grouped' : 'per-gang'} accessory layout.`);
+        this.accessories.splice(this.accessories.indexOf(accessory), 1);
+    }
+    this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, replaced);
+}
+
+/**
+ * Removes cached accessories that discovery no longer returns (removed devices, renamed or removed gangs).
+ * With 'orphanGracePeriod' set, an accessory is only removed after it has been missing for that many hours.
+ */
+unregisterOrphanedAccessories(currentAccessoryUUIDs: Set<string>, devices: Device[]) {
+    if (!this.removeOrphanedAccessories) {
+        this.log.debug('Orphaned accessory removal disabled by config.');
+        return;
+    }
+
+    const returnedDeviceIds = new Set(devices.map(device => device.id));
+    const configuredDeviceIds = ((this.config.devices as { device?: string }[]) || []).map(entry => entry?.device);
+    const now = Date.now();
+    const toRemove: PlatformAccessory[] = [];
+
+    for (const accessory of this.accessories) {
+        if (currentAccessoryUUIDs.has(accessory.UUID)) {
+            continue;
+        }
+        const deviceId = this.gangsOf(accessory)[0]?.id;
+        // A configured device that returned nothing is more likely a cloud hiccup than a removal
+        if (deviceId && configuredDeviceIds.includes(deviceId) && !returnedDeviceIds.has(deviceId)) {
+            this.log.warn(`Keeping cached accessory ${accessory.displayName}: configured device ${deviceId} was not returned by the API.`);
+            continue;
+        }
+        if (!accessory.context.orphanedSince) {
+            accessory.context.orphanedSince = now;
+        }
+        const missingForMs = now - accessory.context.orphanedSince;
+        if (missingForMs < this.orphanGracePeriod) {
+            const hoursLeft = ((this.orphanGracePeriod - missingForMs) / 3600000).toFixed(1);
+            this.log.info(`Accessory ${accessory.displayName} is no longer discovered; keeping it for another ${hoursLeft} hour(s).`);
+            this.api.updatePlatformAccessories([accessory]);
+            continue;
+        }
+        toRemove.push(accessory);
+    }
+
+    if (toRemove.length === 0) {
+        return;
+    }
+    for (const accessory of toRemove) {
+        this.log.info(`Removing orphaned accessory from cache: ${accessory.displayName} (${this.gangsOf(accessory)[0]?.id ?? 'unknown device'})`);
+        this.accessories.splice(this.accessories.indexOf(accessory), 1);
+    }
+    this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, toRemove);
+}
+
+setupPeriodicDiscovery() {
+      if (!this.discovery || this.lanDiscoveryInterval <= 0) {
+          return;
+      }
+      if (this.discoveryInterval) {
+          clearInterval(this.discoveryInterval);
+      }
+      this.log.debug(`Setting up LAN re-discovery every ${this.lanDiscoveryInterval} ms.`);
+      this.discoveryInterval = setInterval(() => {
+          this.discovery?.discover(LAN_DISCOVERY_TIMEOUT).then((addresses) => this.apiHelper.updateDeviceAddresses(addresses));
+      }, this.lanDiscoveryInterval);
+}
+
+/**
+ * Points cached accessories of a device at the IP it was found at on the LAN.
+ */
+updateAccessoryAddress(serial: string, ip: string) {
+    this.apiHelper?.updateDeviceAddresses(new Map([[serial, ip]]));
+    const changed = this.accessories.filter(acc => this.gangsOf(acc).some(gang => gang.id === serial && gang.ip !== ip));
+    for (const acc of changed) {
+        this.log.info(`Updating IP of ${acc.displayName} from ${this.gangsOf(acc)[0].ip || '(none)'} to ${ip}`);
+        this.gangsOf(acc).forEach(gang => gang.ip = ip);
+    }
+    if (changed.length > 0) {
+        this.api.updatePlatformAccessories(changed);
+    }
 }
 
 setupPeriodicRefresh() {
@@ -155,166 +479,453 @@ setupPeriodicRefresh() {
           this.log.info('Periodic refresh disabled (no API helper or delay <= 0).');
           return;
       }
-      this.log.debug(`Setting up periodic refresh every ${this.refreshDelay} ms.`);
+      this.log.debug(`Setting up periodic refresh: checking for due devices every ${this.pollSchedule.tickInterval} ms (base interval ${this.refreshDelay} ms).`);
       if (this.refreshInterval) {
           clearInterval(this.refreshInterval);
           this.refreshInterval = null;
       }
-      this.refreshInterval = setInterval(() => this.refreshStatus(), this.refreshDelay);
+      this.refreshInterval = setInterval(() => this.refreshStatus('scheduled'), this.pollSchedule.tickInterval);
  }
 
 /**
- * Refreshes the status of all configured devices periodically.
- * Removed unused 'onetime' parameter.
+ * Requests a status refresh of all discovered devices. Runs through the StatusPoller, so calls made
+ * while a cycle is in progress are merged into one follow-up cycle.
  */
-refreshStatus() {
+refreshStatus(reason = 'on demand') {
    if (!this.apiHelper) {
       this.log.error("Cannot refresh status: API Helper not available.");
       return;
    }
-  const configuredDeviceGroups = this.config.devices as DeviceConfigEntry[] || [];
-  if (configuredDeviceGroups.length === 0) {
-      this.log.debug('Refresh skipped: No devices configured.');
+  if (this.knownDeviceIds.length === 0) {
+      this.log.debug('Refresh skipped: No devices discovered yet.');
       return;
   }
-  const totalConfiguredDeviceGroups = configuredDeviceGroups.length;
 
-  this.log.info(`Starting status refresh for ${totalConfiguredDeviceGroups} configured device groups...`);
   const apiHelper = this.apiHelper;
 
   if (!apiHelper.isLoggedIn()) {
+      // The running login requests a refresh when it succeeds; don't stack another one on every tick
+      if (apiHelper.isLoggingIn()) {
+          this.log.debug('Refresh skipped: login in progress.');
+          return;
+      }
       this.log.warn('API Helper not logged in, attempting login before refresh...');
       if (!apiHelper.login) { this.log.error("API Helper is not functional. Skipping refresh."); return; }
-      apiHelper.login((token) => {
-          if (token) { this.log.info('Login successful, proceeding with refresh.'); this.executeRefreshCycle(apiHelper); }
-          else { this.log.error('Login failed during refresh attempt. Skipping refresh cycle.'); }
+      apiHelper.login().then(() => {
+          this.log.info('Login successful, proceeding with refresh.');
+          this.statusPoller.requestRefresh(reason);
+      }).catch((error) => {
+          this.log.debug(`Login abandoned, skipping refresh cycle: ${error instanceof Error ? error.message : error}`);
       });
   } else {
-      this.executeRefreshCycle(apiHelper);
+      this.statusPoller.requestRefresh(reason);
+  }
+}
+
+/**
+ * Called by accessories after sending a command so the device is polled quickly for a while.
+ * `sequence` is the gang that was switched, so its change isn't reported as a button press.
+ */
+notifyCommand(deviceId: string, sequence?: number) {
+  if (sequence !== undefined) {
+      this.deviceStatus.recordGangCommand(deviceId, sequence);
+  }
+  this.pollSchedule.boost(deviceId);
+  this.syncAutoOff(deviceId);
+  this.statusStore.scheduleSave();
+}
+
+/**
+ * Seconds a gang with `autoOff` stays on: the SetDuration chosen in HomeKit, else the configured minutes (0 without auto-off).
+ */
+autoOffSeconds(acc: PlatformAccessory, gang: Device): number {
+  if (!(gang.autoOff > 0)) {
+      return 0;
+  }
+  const service = this.getDeviceService(acc, gang);
+  const chosen = service?.testCharacteristic(this.Characteristic.SetDuration) ? Number(service.getCharacteristic(this.Characteristic.SetDuration).value) : 0;
+  return chosen > 0 ? chosen : gang.autoOff * 60;
+}
+
+/**
+ * Starts the auto-off timer of every gang of the device that is on (whoever switched it on) and stops the
+ * timers of gangs that are off again.
+ */
+private syncAutoOff(deviceId: string) {
+  for (const [acc, gang] of this.gangsFor(deviceId)) {
+      const isOn = this.isGangActive(deviceId, gang);
+      const dueAt = this.deviceStatus.getOffTimer(deviceId, gang.sequence);
+      if (gang.autoOff > 0 && isOn) {
+          if (dueAt !== null) {
+              this.autoOff.resume(deviceId, gang.sequence);
+              continue;
+          }
+          const seconds = this.autoOffSeconds(acc, gang);
+          this.log.info(`${gang.name} is on; switching it off in ${Math.round(seconds / 60)} minute(s) (auto-off).`);
+          this.autoOff.start(deviceId, gang.sequence, Date.now() + seconds * 1000);
+      } else if (dueAt !== null) {
+          this.log.debug(`${gang.name} is off; auto-off timer stopped.`);
+          this.autoOff.cancel(deviceId, gang.sequence);
+      } else {
+          continue;
+      }
+      this.statusStore.scheduleSave();
+      const service = this.getDeviceService(acc, gang);
+      if (service?.testCharacteristic(this.Characteristic.RemainingDuration)) {
+          service.updateCharacteristic(this.Characteristic.RemainingDuration, this.autoOff.remaining(deviceId, gang.sequence));
+      }
+  }
+}
+
+/**
+ * A gang's auto-off time is up: switches it off through its characteristic, so the accessory's own handler
+ * (optimistic update, command pipeline) does the work. Retried after AUTO_OFF_RETRY_DELAY if the command fails.
+ */
+private autoOffDue(deviceId: string, sequence: number) {
+  const entry = this.gangsFor(deviceId).find(([, gang]) => gang.sequence === sequence);
+  if (!entry || !(entry[1].autoOff > 0) || !this.isGangActive(deviceId, entry[1])) {
+      this.autoOff.cancel(deviceId, sequence);
+      this.statusStore.scheduleSave();
+      return;
   }
+  const [acc, gang] = entry;
+  const service = this.getDeviceService(acc, gang);
+  if (!service) {
+      return;
+  }
+  const usesActive = gang.isFan || SmarteefiHelper.getGangType(gang) === 'valve';
+  this.log.info(`Auto-off: switching ${gang.name} off.`);
+  service.getCharacteristic(usesActive ? this.Characteristic.Active : this.Characteristic.On)
+      .handleSetRequest(usesActive ? this.Characteristic.Active.INACTIVE : false)
+      .catch(() => {
+          this.log.warn(`Auto-off of ${gang.name} failed; trying again in ${AUTO_OFF_RETRY_DELAY / 1000} seconds.`);
+          this.autoOff.start(deviceId, sequence, Date.now() + AUTO_OFF_RETRY_DELAY);
+      });
+}
+
+/**
+ * Whether a gang is on in the cache. Fans count as on while they have a speed, like their Active characteristic.
+ */
+private isGangActive(deviceId: string, gang: Device): boolean {
+  const cached = this.deviceStatus.getStatusMap(deviceId);
+  if (gang.isFan) {
+      return (cached?.speedValue ?? 0) > 0;
+  }
+  return SmarteefiHelper.isGangOn(cached?.statusmap ?? 0, gang);
 }
 
 /**
- * Helper method to perform the actual refresh API calls for each configured device group.
+ * Polls one device group and applies its state to the cache and its accessories.
  */
-private executeRefreshCycle(apiHelper: SmarteefiAPIHelper) {
-  let completedUpdates = 0;
-  const configuredDeviceGroups = this.config.devices as DeviceConfigEntry[] || [];
-  const totalConfiguredDeviceGroups = configuredDeviceGroups.length;
-  if (totalConfiguredDeviceGroups === 0) return;
-
-  this.log.debug(`Executing refresh cycle...`);
-
-  for (const deviceConfig of configuredDeviceGroups) {
-      const deviceId = deviceConfig?.device;
-      if (!deviceId) { /* ... skip logic ... */ completedUpdates++; continue; }
-      if (!apiHelper.getSwitchStatus) { /* ... skip logic ... */ completedUpdates++; continue; }
-
-      apiHelper.getSwitchStatus(deviceId, 255, (body) => {
-          try {
-              if (!body || typeof body !== 'object' || body.result === "error" || body.result === "failure") {
-                  const reason = SmarteefiHelper.getReason(body?.major_ecode) || body?.reason || 'Unknown error or empty body';
-                  this.log.error(`Unable to get status for deviceId ${deviceId}. Reason: ${reason}`);
-                  // Update cache to reflect error (-1) and clear speed
-                  this.deviceStatus.setStatusMap(deviceId, -1, -1, undefined); // Mark cache as invalid/errored
-              } else {
-                  const switchmap = typeof body.switchmap === 'number' ? body.switchmap : 0;
-                  const statusmapFromGetStatus = typeof body.statusmap === 'number' ? body.statusmap : 0;
-                  this.log.debug(`[REFRESH / ${deviceId}] Received statusmap: ${statusmapFromGetStatus}`);
-
-                  // Update the DeviceStatus cache with the latest statusmap
-                  // **Do NOT pass a speed value here** - let setStatus preserve existing speed unless statusmap is 0
-                  this.deviceStatus.setStatusMap(deviceId, switchmap, statusmapFromGetStatus);
-                  this.log.debug(`[CACHE_UPDATE / Refresh] Updated DeviceStatus cache for ${deviceId} with statusmap=${statusmapFromGetStatus}`);
-
-                  // Do NOT attempt to derive fan speed from statusmap (cloud encoding is unreliable)
-                  // Keep cached speedValue as set by setdimctl responses or accessory handlers.
-
-                  // Update characteristics ONLY IF NEEDED for relevant accessories
-                  for (const acc of this.accessories) {
-                       if (acc.context?.device?.id === deviceId) {
-                          const deviceContext = acc.context.device;
-                          const isFan = !!deviceContext.isFan;
-                          const sequence = typeof deviceContext.sequence === 'number' ? deviceContext.sequence : -1;
-                          if (sequence === -1) continue;
-
-                          // Check if we should skip updating due to recent command (grace period)
-                          const shouldSkip = this.deviceStatus.shouldSkipRefreshUpdate(deviceId, this.commandGracePeriod);
-                          if (shouldSkip) {
-                              this.log.debug(`[REFRESH / ${acc.displayName}] Skipping characteristic update - recent command or pending update`);
-                              continue;
+private refreshDevice(apiHelper: SmarteefiAPIHelper, deviceId: string): Promise<void> {
+  return apiHelper.getSwitchStatus(deviceId, 255).then((body) => {
+      try {
+          const switchmap = typeof body.switchmap === 'number' ? body.switchmap : 0;
+          const readStatusmap = typeof body.statusmap === 'number' ? body.statusmap : 0;
+          this.log.debug(`[REFRESH / ${deviceId}] Received statusmap: ${readStatusmap}`);
+
+          // Confirm switch commands that show in the read; ones too recent to show keep their optimistic state
+          const reconciled = this.deviceStatus.reconcileGangCommands(deviceId, readStatusmap, this.commandGracePeriod);
+          const statusmapFromGetStatus = reconciled.statusmap;
+          for (const sequence of reconciled.notApplied) {
+              this.log.warn(`[REFRESH / ${deviceId}] Command to gang ${sequence} was accepted but never took effect; reverting to the device state.`);
+          }
+
+          // Local replies carry the regulator's actual speed step; the cloud response does not
+          const hasFan = this.gangsFor(deviceId).some(([, gang]) => gang.isFan);
+          const reportedSpeed = (hasFan && typeof body.speed === 'number') ? body.speed : undefined;
+
+          // A state we didn't cause (wall switch, Smarteefi app) keeps the device on the fast schedule
+          const previous = this.deviceStatus.getStatusMap(deviceId);
+          const changed = !!previous && previous.online && (previous.statusmap !== statusmapFromGetStatus
+              || (reportedSpeed !== undefined && previous.speedValue !== reportedSpeed));
+          if (changed) {
+              this.log.debug(`[REFRESH / ${deviceId}] External change detected (statusmap ${previous?.statusmap} -> ${statusmapFromGetStatus}), polling faster.`);
+              this.emitButtonPresses(deviceId, previous.statusmap, statusmapFromGetStatus);
+          }
+          this.pollSchedule.recordPoll(deviceId, changed, false);
+
+          // Update the DeviceStatus cache with the latest statusmap
+          // **Only pass a speed value when the device reported one** - otherwise setStatus preserves the existing speed
+          this.deviceStatus.setStatusMap(deviceId, switchmap, statusmapFromGetStatus, reportedSpeed);
+          this.statusStore.scheduleSave();
+
+          // After an outage HomeKit still holds the error, so push every characteristic again
+          const cameOnline = this.deviceStatus.recordPollSuccess(deviceId);
+          if (cameOnline) {
+              this.log.info(`Device ${deviceId} is back online.`);
+          }
+          this.log.debug(`[CACHE_UPDATE / Refresh] Updated DeviceStatus cache for ${deviceId} with statusmap=${statusmapFromGetStatus}${reportedSpeed !== undefined ? `, speed=${reportedSpeed}` : ''}`);
+          this.refreshSettings(apiHelper, deviceId);
+          this.syncAutoOff(deviceId);
+
+          // Do NOT attempt to derive fan speed from the cloud statusmap (encoding is unreliable)
+          // Keep cached speedValue as set by setdimctl responses, local replies or accessory handlers.
+
+          // Update characteristics ONLY IF NEEDED for relevant accessories
+          for (const [acc, deviceContext] of this.gangsFor(deviceId)) {
+               {
+                  const isFan = !!deviceContext.isFan;
+                  const isValve = SmarteefiHelper.getGangType(deviceContext) === 'valve';
+                  const sequence = typeof deviceContext.sequence === 'number' ? deviceContext.sequence : -1;
+                  if (sequence === -1) continue;
+
+                  // Check if we should skip updating due to recent command (grace period)
+                  const shouldSkip = !cameOnline && !reconciled.notApplied.includes(sequence)
+                      && this.deviceStatus.shouldSkipRefreshUpdate(deviceId, this.commandGracePeriod);
+                  if (shouldSkip) {
+                      this.log.debug(`[REFRESH / ${deviceContext.name}] Skipping characteristic update - recent command or pending update`);
+                      continue;
+                  }
+
+                  const service = this.getDeviceService(acc, deviceContext);
+                  if (service) {
+                      try {
+                          // Determine target Active/On state
+                          let targetOnOffState: CharacteristicValue;
+                          if (isFan) {
+                              // For fans, use cached speedValue to derive ON/OFF
+                              const cachedStatus = this.deviceStatus.getStatusMap(deviceId);
+                              const cachedSpeedValue = cachedStatus?.speedValue ?? null;
+                              const isFanOn = cachedSpeedValue !== null && cachedSpeedValue > 0;
+                              targetOnOffState = isFanOn ? this.Characteristic.Active.ACTIVE : this.Characteristic.Active.INACTIVE;
+                              this.log.debug(`[REFRESH / ${deviceContext.name}] Fan state from cached speed: ${isFanOn ? 'ACTIVE' : 'INACTIVE'} (speedValue=${cachedSpeedValue}, statusmap=${statusmapFromGetStatus})`);
+                          } else {
+                              // Switch On state based on bitwise check of refreshed statusmap
+                              const isOn = SmarteefiHelper.isGangOn(statusmapFromGetStatus, deviceContext);
+                              targetOnOffState = isValve ? (isOn ? this.Characteristic.Active.ACTIVE : this.Characteristic.Active.INACTIVE) : isOn;
                           }
 
-                          const service = isFan ? acc.getService(this.Service.Fanv2) : acc.getService(this.Service.Switch);
-                          if (service) {
-                              try {
-                                  // Determine target Active/On state
-                                  let targetOnOffState: CharacteristicValue;
-                                  if (isFan) {
-                                      // For fans, use cached speedValue to derive ON/OFF
-                                      const cachedStatus = this.deviceStatus.getStatusMap(deviceId);
-                                      const cachedSpeedValue = cachedStatus?.speedValue ?? null;
-                                      const isFanOn = cachedSpeedValue !== null && cachedSpeedValue > 0;
-                                      targetOnOffState = isFanOn ? this.Characteristic.Active.ACTIVE : this.Characteristic.Active.INACTIVE;
-                                      this.log.debug(`[REFRESH / ${acc.displayName}] Fan state from cached speed: ${isFanOn ? 'ACTIVE' : 'INACTIVE'} (speedValue=${cachedSpeedValue}, statusmap=${statusmapFromGetStatus})`);
-                                  } else {
-                                      // Switch On state based on bitwise check of refreshed statusmap
-                                      targetOnOffState = (statusmapFromGetStatus & SmarteefiHelper.getSwitchMap(sequence)) !== 0;
-                                  }
+                          const onOffCharacteristic = (isFan || isValve) ? this.Characteristic.Active : this.Characteristic.On;
 
-                                  const onOffCharacteristic = isFan ? this.Characteristic.Active : this.Characteristic.On;
-
-                                  // Update HomeKit ONLY if the derived state differs from current HomeKit state
-                                  if(service.testCharacteristic(onOffCharacteristic)) {
-                                      const currentHKState = service.getCharacteristic(onOffCharacteristic).value;
-                                      if (currentHKState !== targetOnOffState) {
-                                          this.log.info(`[REFRESH / ${acc.displayName}] Updating ${onOffCharacteristic.name} from ${currentHKState} to ${targetOnOffState} based on getStatus.`);
-                                          service.updateCharacteristic(onOffCharacteristic, targetOnOffState);
-                                      } else {
-                                           this.log.debug(`[REFRESH / ${acc.displayName}] ${onOffCharacteristic.name} state already ${targetOnOffState}. No update needed.`);
-                                      }
+                          // Update HomeKit ONLY if the derived state differs from current HomeKit state
+                          if(service.testCharacteristic(onOffCharacteristic)) {
+                              const currentHKState = service.getCharacteristic(onOffCharacteristic).value;
+                              if (cameOnline || currentHKState !== targetOnOffState) {
+                                  this.log.info(`[REFRESH / ${deviceContext.name}] Updating ${onOffCharacteristic.name} from ${currentHKState} to ${targetOnOffState} based on getStatus.`);
+                                  service.updateCharacteristic(onOffCharacteristic, targetOnOffState);
+                                  if (isValve) {
+                                      service.updateCharacteristic(this.Characteristic.InUse, targetOnOffState);
                                   }
+                              } else {
+                                   this.log.debug(`[REFRESH / ${deviceContext.name}] ${onOffCharacteristic.name} state already ${targetOnOffState}. No update needed.`);
+                              }
+                          }
 
-                                  // *** RE-ENABLE ROTATION SPEED UPDATE WITH GRACE PERIOD CHECK ***
-                                  if (isFan && service.testCharacteristic(this.Characteristic.RotationSpeed)) {
-                                      const cachedStatus = this.deviceStatus.getStatusMap(deviceId);
-                                      const cachedSpeedValue = cachedStatus?.speedValue ?? null;
-                                      const isFanOn = cachedSpeedValue !== null && cachedSpeedValue > 0;
-                                      const currentSpeedPercent = service.getCharacteristic(this.Characteristic.RotationSpeed).value as number;
-
-                                      if (!isFanOn) {
-                                          // Fan OFF -> ensure RotationSpeed is 0
-                                          if (currentSpeedPercent !== 0) {
-                                              this.log.debug(`[REFRESH / ${acc.displayName}] Setting RotationSpeed to 0% (fan OFF via cache)`);
-                                              service.updateCharacteristic(this.Characteristic.RotationSpeed, 0);
-                                          }
-                                      } else {
-                                          const targetPercent = SmarteefiHelper.valueToPercent(cachedSpeedValue);
-                                          if (currentSpeedPercent !== targetPercent) {
-                                              this.log.debug(`[REFRESH / ${acc.displayName}] Updating RotationSpeed from ${currentSpeedPercent}% to ${targetPercent}% (cache)`);
-                                              service.updateCharacteristic(this.Characteristic.RotationSpeed, targetPercent);
-                                          }
-                                      }
-                                  }
+                          // Dimmers don't report their level in getstatus; re-push the cached one
+                          const cachedLevel = deviceContext.isDimmer ? this.deviceStatus.getBrightnessLevel(deviceId, sequence) : null;
+                          if (cachedLevel) {
+                              const targetBrightness = SmarteefiHelper.levelToPercent(cachedLevel, apiHelper.getDimmerLevels(deviceId));
+                              if (cameOnline || service.getCharacteristic(this.Characteristic.Brightness).value !== targetBrightness) {
+                                  service.updateCharacteristic(this.Characteristic.Brightness, targetBrightness);
+                              }
+                          }
 
-                              } catch (updateError) { this.log.error(`Error updating characteristics for ${acc.displayName}: ${updateError}`); }
+                          // *** RE-ENABLE ROTATION SPEED UPDATE WITH GRACE PERIOD CHECK ***
+                          if (isFan && service.testCharacteristic(this.Characteristic.RotationSpeed)) {
+                              const cachedStatus = this.deviceStatus.getStatusMap(deviceId);
+                              const cachedSpeedValue = cachedStatus?.speedValue ?? null;
+                              const isFanOn = cachedSpeedValue !== null && cachedSpeedValue > 0;
+                              const currentSpeedPercent = service.getCharacteristic(this.Characteristic.RotationSpeed).value as number;
+
+                              if (!isFanOn) {
+                                  // Fan OFF -> ensure RotationSpeed is 0
+                                  if (cameOnline || currentSpeedPercent !== 0) {
+                                      this.log.debug(`[REFRESH / ${deviceContext.name}] Setting RotationSpeed to 0% (fan OFF via cache)`);
+                                      service.updateCharacteristic(this.Characteristic.RotationSpeed, 0);
+                                  }
+                              } else {
+                                  const targetPercent = SmarteefiHelper.valueToPercent(cachedSpeedValue, apiHelper.getFanProfile(deviceId));
+                                  if (cameOnline || currentSpeedPercent !== targetPercent) {
+                                      this.log.debug(`[REFRESH / ${deviceContext.name}] Updating RotationSpeed from ${currentSpeedPercent}% to ${targetPercent}% (cache)`);
+                                      service.updateCharacteristic(this.Characteristic.RotationSpeed, targetPercent);
+                                  }
+                              }
                           }
-                      } // end if acc matches deviceId
-                  } // end loop accessories
-              } // end else status ok
-          } catch (e) {
-              const msg = e instanceof Error ? e.message : String(e);
-              this.log.error(`Error processing status update for ${deviceId}: ${msg}`);
-              this.deviceStatus.setStatusMap(deviceId, -1, -1, undefined); // Mark cache as invalid/errored
-          } finally {
-              completedUpdates++;
-              if (completedUpdates >= totalConfiguredDeviceGroups) {
-                  this.log.info("Status refresh cycle completed.");
+
+                      } catch (updateError) { this.log.error(`Error updating characteristics for ${deviceContext.name}: ${updateError}`); }
+                  }
+              } // end gang
+          } // end loop gangs
+      } catch (e) {
+          const msg = e instanceof Error ? e.message : String(e);
+          this.log.error(`Error processing status update for ${deviceId}: ${msg}`);
+      }
+  }).catch((error) => {
+      const reason = error instanceof SmarteefiApiError ? error.reason : (error instanceof Error ? error.message : String(error));
+      const wentOffline = this.deviceStatus.recordPollFailure(deviceId, OFFLINE_FAILURE_THRESHOLD, error instanceof SmarteefiDeviceOfflineError);
+      this.pollSchedule.recordPoll(deviceId, false, !this.deviceStatus.isOnline(deviceId));
+      if (wentOffline) {
+          this.log.warn(`Device ${deviceId} is offline (${reason}); its accessories will show "No Response" until it answers again.`);
+          this.markDeviceUnreachable(deviceId);
+      } else if (this.deviceStatus.isOnline(deviceId)) {
+          this.log.warn(`Unable to get status for deviceId ${deviceId}. Reason: ${reason}`);
+      } else {
+          this.log.debug(`Device ${deviceId} still offline: ${reason}`);
+      }
+  });
+}
+
+/**
+ * Fires a single press on the button of every gang that toggled without a command from the plugin,
+ * i.e. someone pressed it on the wall (or used the Smarteefi app). A gang whose auto-off is due switches off
+ * by itself (device-side duration), so a change then isn't a press either.
+ */
+private emitButtonPresses(deviceId: string, previousStatusmap: number, statusmap: number) {
+  const toggled = previousStatusmap ^ statusmap;
+  for (const [acc, gang] of this.gangsFor(deviceId)) {
+      if (!gang.buttonEvents || gang.isFan || (toggled & SmarteefiHelper.getSwitchMap(gang.sequence)) === 0) {
+          continue;
+      }
+      if (this.deviceStatus.isRecentGangCommand(deviceId, gang.sequence, COMMAND_ECHO_WINDOW)) {
+          this.log.debug(`[REFRESH / ${gang.name}] Change follows our own command, not a button press.`);
+          continue;
+      }
+      const offDueAt = this.deviceStatus.getOffTimer(deviceId, gang.sequence);
+      if (offDueAt !== null && offDueAt - Date.now() <= COMMAND_ECHO_WINDOW) {
+          this.log.debug(`[REFRESH / ${gang.name}] Change is the auto-off, not a button press.`);
+          continue;
+      }
+      const button = acc.getServiceById(this.Service.StatelessProgrammableSwitch, SmarteefiHelper.getButtonSubtype(gang.sequence));
+      if (button) {
+          this.log.info(`[REFRESH / ${gang.name}] Button pressed.`);
+          button.updateCharacteristic(this.Characteristic.ProgrammableSwitchEvent, this.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS);
+      }
+  }
+}
+
+/**
+ * Pushes a communication failure to every characteristic of the device's accessories so HomeKit
+ * shows "No Response" without waiting for the next GET.
+ */
+private markDeviceUnreachable(deviceId: string) {
+  const noResponse = new this.api.hap.HapStatusError(this.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+  for (const [acc, gang] of this.gangsFor(deviceId)) {
+      if (this.settingsHosts.get(deviceId) === gang.sequence) {
+          this.settingServicesOf(acc).forEach(([, service]) => service.updateCharacteristic(this.Characteristic.On, noResponse));
+      }
+      const service = this.getDeviceService(acc, gang);
+      if (!service) continue;
+      if (gang.isFan) {
+          service.updateCharacteristic(this.Characteristic.Active, noResponse);
+          service.updateCharacteristic(this.Characteristic.RotationSpeed, noResponse);
+      } else if (SmarteefiHelper.getGangType(gang) === 'valve') {
+          service.updateCharacteristic(this.Characteristic.Active, noResponse);
+      } else {
+          service.updateCharacteristic(this.Characteristic.On, noResponse);
+          if (gang.isDimmer) {
+              service.updateCharacteristic(this.Characteristic.Brightness, noResponse);
+          }
+      }
+  }
+}
+
+/**
+ * HomeKit service class a gang type is exposed as.
+ */
+serviceFor(type: GangType): GangService {
+  switch (type) {
+      case 'regulator': return this.Service.Fanv2;
+      case 'dimmer':
+      case 'lightbulb': return this.Service.Lightbulb;
+      case 'outlet': return this.Service.Outlet;
+      case 'fan': return this.Service.Fan;
+      case 'valve': return this.Service.Valve;
+      default: return this.Service.Switch;
+  }
+}
+
+/**
+ * Gangs an accessory carries: every gang of the device when grouped, otherwise just its own.
+ */
+private gangsOf(acc: PlatformAccessory): Device[] {
+  if (Array.isArray(acc.context?.gangs)) {
+      return acc.context.gangs;
+  }
+  return acc.context?.device ? [acc.context.device] : [];
+}
+
+/**
+ * Every gang of a device, paired with the accessory it is on.
+ */
+private gangsFor(deviceId: string): [PlatformAccessory, Device][] {
+  return this.accessories.flatMap(acc => this.gangsOf(acc)
+      .filter(gang => gang.id === deviceId)
+      .map(gang => [acc, gang] as [PlatformAccessory, Device]));
+}
+
+/**
+ * The HomeKit service that represents a gang on its accessory (by subtype when the accessory is grouped).
+ */
+private getDeviceService(acc: PlatformAccessory, gang: Device = acc.context?.device): Service | undefined {
+  if (!gang) {
+      return undefined;
+  }
+  const serviceType = this.serviceFor(SmarteefiHelper.getGangType(gang));
+  return SmarteefiHelper.findGangService(acc, serviceType, gang.sequence, Array.isArray(acc.context?.gangs));
+}
+
+/**
+ * The setting switches an accessory carries.
+ */
+private settingServicesOf(acc: PlatformAccessory): [DeviceSetting, Service][] {
+  return DEVICE_SETTINGS
+      .map(setting => [setting, acc.getServiceById(this.Service.Switch, SmarteefiHelper.getSettingSubtype(setting))] as [DeviceSetting, Service | undefined])
+      .filter((entry): entry is [DeviceSetting, Service] => !!entry[1]);
+}
+
+/**
+ * Re-reads a device's exposed settings when they are older than SETTINGS_REFRESH_INTERVAL and shows them in HomeKit.
+ * Settings the cloud doesn't offer for the device (no endpoint, or missing from the answer) lose their switches;
+ * any other failed read is only logged and the next poll tries again.
+ */
+private refreshSettings(apiHelper: SmarteefiAPIHelper, deviceId: string) {
+  const exposed = apiHelper.getExposedSettings(deviceId).filter(setting => this.deviceStatus.isSettingSupported(deviceId, setting));
+  if (exposed.length === 0 || !this.deviceStatus.areSettingsStale(deviceId, SETTINGS_REFRESH_INTERVAL)) {
+      return;
+  }
+  apiHelper.getDeviceSettings(deviceId).then((settings) => {
+      const missing = exposed.filter(setting => settings[setting] === undefined);
+      if (missing.length > 0) {
+          this.disableSettings(deviceId, missing, 'the cloud does not report them');
+      }
+      this.deviceStatus.setDeviceSettings(deviceId, settings);
+      this.statusStore.scheduleSave();
+      const hosts = new Set(this.gangsFor(deviceId).map(([acc]) => acc));
+      for (const acc of hosts) {
+          for (const [setting, service] of this.settingServicesOf(acc)) {
+              const enabled = settings[setting];
+              if (enabled !== undefined && service.getCharacteristic(this.Characteristic.On).value !== enabled) {
+                  this.log.info(`[REFRESH / ${deviceId}] ${DEVICE_SETTING_NAMES[setting]} is now ${enabled ? 'ON' : 'OFF'}.`);
+                  service.updateCharacteristic(this.Characteristic.On, enabled);
               }
           }
-      }); // end getSwitchStatus callback
-  } // end for loop deviceConfig
-} // end executeRefreshCycle
+      }
+  }).catch((error) => {
+      if (error instanceof SmarteefiUnsupportedError) {
+          this.disableSettings(deviceId, exposed, error.message);
+          return;
+      }
+      this.log.debug(`Unable to read settings of ${deviceId}: ${error instanceof Error ? error.message : error}`);
+  });
+}
+
+/**
+ * Stops exposing settings a device doesn't support and removes their switches.
+ */
+private disableSettings(deviceId: string, settings: DeviceSetting[], reason: string) {
+  const names = settings.map(setting => DEVICE_SETTING_NAMES[setting]).join(', ');
+  this.log.warn(`Device ${deviceId} doesn't seem to support ${names} (${reason}); not exposing the switch(es). Remove them from the device's "settings" to silence this warning.`);
+  this.deviceStatus.markSettingsUnsupported(deviceId, settings);
+  const hosts = new Set(this.gangsFor(deviceId).map(([acc]) => acc));
+  for (const acc of hosts) {
+      for (const [setting, service] of this.settingServicesOf(acc)) {
+          if (settings.includes(setting)) {
+              acc.removeService(service);
+          }
+      }
+  }
+}
 
 decodeStatus(sequence: number, deviceId: string): CharacteristicValue {
   return SmarteefiHelper.decodeStatus(sequence, deviceId, this.Characteristic, this.deviceStatus);
@@ -325,5 +936,18 @@ decodeStatus(sequence: number, deviceId: string): CharacteristicValue {
      clearInterval(this.refreshInterval);
      this.log.info('Cleared status refresh interval on shutdown.');
    }
+   if (this.discoveryInterval) {
+     clearInterval(this.discoveryInterval);
+     this.discoveryInterval = null;
+   }
+   if (this.discoveryRetryTimer) {
+     clearTimeout(this.discoveryRetryTimer);
+     this.discoveryRetryTimer = null;
+   }
+   this.discovery?.stop();
+   this.statusPoller.stop();
+   this.autoOff.stop();
+   this.statusStore.save();
+   this.apiHelper?.shutdown();
  }
 }
\ No newline at end of file